@@ -0,0 +1,166 @@
+/**
+ * Audio Mixer class that mixes several audio sources into one MediaStream track using Web Audio
+ */
+
+export type AudioSourceInput = MediaStream | HTMLMediaElement | AudioNode | 'microphone';
+
+export interface AudioSource {
+  source: AudioSourceInput; // Stream, media element, Web Audio node, or 'microphone' to request one
+  gain?: number; // Per-source volume, default 1
+  monitor?: boolean; // Also play through the speakers while recording; default true for media elements, false otherwise. Media elements play through the speakers again after recording either way
+}
+
+export type AudioOptions = AudioSourceInput | AudioSource | (AudioSourceInput | AudioSource)[];
+
+interface ConnectedSource {
+  node: AudioNode;
+  gainNode: GainNode;
+  monitored: boolean;
+}
+
+// A media element can only be attached to Web Audio once, so its source node is reused across recordings
+const mediaElementSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>();
+// Once attached, an element is only heard through the graph; these element nodes are connected to the speakers
+const elementsOnSpeakers = new WeakSet<AudioNode>();
+let sharedContext: AudioContext | null = null;
+
+export class AudioMixer {
+  private context: AudioContext | null = null;
+  private destination: MediaStreamAudioDestinationNode | null = null;
+  private sources: ConnectedSource[] = [];
+  private ownedStreams: MediaStream[] = [];
+
+  static normalizeSources(options: AudioOptions): AudioSource[] {
+    const list = Array.isArray(options) ? options : [options];
+    return list.map(entry =>
+      typeof entry === 'object' && 'source' in entry ? entry : { source: entry }
+    );
+  }
+
+  /**
+   * Build the mixing graph and return a stream with a single mixed audio track
+   */
+  async start(options: AudioOptions): Promise<MediaStream> {
+    const sources = AudioMixer.normalizeSources(options);
+    this.context = this.resolveContext(sources);
+
+    // Contexts created before a user gesture start suspended
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+
+    this.destination = this.context.createMediaStreamDestination();
+
+    for (const source of sources) {
+      const node = await this.createSourceNode(source.source);
+      const gainNode = this.context.createGain();
+      gainNode.gain.value = source.gain ?? 1;
+
+      node.connect(gainNode);
+      gainNode.connect(this.destination);
+
+      const monitored = source.monitor ?? source.source instanceof HTMLMediaElement;
+      if (node instanceof MediaElementAudioSourceNode) {
+        // An element left on the speakers by an earlier recording is muted for one that doesn't monitor it
+        if (monitored !== elementsOnSpeakers.has(node)) {
+          if (monitored) {
+            node.connect(this.context.destination);
+            elementsOnSpeakers.add(node);
+          } else {
+            node.disconnect(this.context.destination);
+            elementsOnSpeakers.delete(node);
+          }
+        }
+      } else if (monitored) {
+        node.connect(this.context.destination);
+      }
+
+      this.sources.push({ node, gainNode, monitored });
+    }
+
+    return this.destination.stream;
+  }
+
+  /**
+   * Change the recording volume of a source while recording, by its index in the audio options
+   */
+  setGain(index: number, gain: number): void {
+    const source = this.sources[index];
+    if (!source || !this.context) return;
+    source.gainNode.gain.setTargetAtTime(gain, this.context.currentTime, 0.01);
+  }
+
+  stop(): void {
+    for (const source of this.sources) {
+      // Only our own connections are undone, so nodes passed in keep the rest of their graph
+      source.node.disconnect(source.gainNode);
+      source.gainNode.disconnect();
+      // Monitored sources stay connected to the speakers so playback carries on after recording, and
+      // unmonitored elements go back to them, since they can't be heard on the page any other way
+      if (source.node instanceof MediaElementAudioSourceNode && !elementsOnSpeakers.has(source.node)) {
+        source.node.connect(source.node.context.destination);
+        elementsOnSpeakers.add(source.node);
+      }
+    }
+    this.sources = [];
+
+    this.destination?.stream.getTracks().forEach(track => track.stop());
+    this.destination = null;
+
+    // Release microphones we opened ourselves
+    this.ownedStreams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    this.ownedStreams = [];
+  }
+
+  private resolveContext(sources: AudioSource[]): AudioContext {
+    // AudioNode sources can only be connected within their own context
+    const nodeSource = sources.find(source => source.source instanceof AudioNode);
+    if (nodeSource) {
+      const context = (nodeSource.source as AudioNode).context;
+      if (!(context instanceof AudioContext)) {
+        throw new Error('Audio nodes must belong to a realtime AudioContext');
+      }
+      return context;
+    }
+
+    if (!sharedContext || sharedContext.state === 'closed') {
+      sharedContext = new AudioContext();
+    }
+    return sharedContext;
+  }
+
+  private async createSourceNode(input: AudioSourceInput): Promise<AudioNode> {
+    const context = this.context!;
+
+    if (input === 'microphone') {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true }
+      });
+      this.ownedStreams.push(stream);
+      return context.createMediaStreamSource(stream);
+    }
+
+    if (input instanceof MediaStream) {
+      if (input.getAudioTracks().length === 0) {
+        throw new Error('Audio MediaStream has no audio tracks');
+      }
+      return context.createMediaStreamSource(input);
+    }
+
+    if (input instanceof HTMLMediaElement) {
+      let node = mediaElementSources.get(input);
+      if (!node) {
+        node = context.createMediaElementSource(input);
+        mediaElementSources.set(input, node);
+      } else if (node.context !== context) {
+        throw new Error('Media element is already attached to a different AudioContext');
+      }
+      return node;
+    }
+
+    if (input.context !== context) {
+      throw new Error('All audio nodes must belong to the same AudioContext');
+    }
+    return input;
+  }
+}
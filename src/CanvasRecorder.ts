@@ -1,6 +1,44 @@
 /**
  * Canvas Recorder class for recording canvas elements with optional watermark support
  */
+import { AudioMixer, AudioOptions } from './AudioMixer';
+import {
+  CaptureMode,
+  EncoderBackend,
+  EncoderBackendOptions,
+  EncoderBackendType,
+  EncoderProbeOptions,
+  EncoderSupport,
+  VideoCodec,
+  VideoContainer,
+  probeEncoderSupport
+} from './encoders/EncoderBackend';
+import { MediaRecorderBackend } from './encoders/MediaRecorderBackend';
+import { WebCodecsBackend } from './encoders/WebCodecsBackend';
+import { CameraOptions, CameraOverlay } from './compositing/CameraOverlay';
+import { CompositeOptions, CompositeSource, Compositor } from './compositing/Compositor';
+import { CropKeyframe, CropOptions, cropAt, resolveCrop } from './compositing/CropOptions';
+import { DomOverlayOptions, DomOverlayRenderer } from './compositing/DomOverlay';
+import { TitleCard, TitleCards } from './compositing/TitleCards';
+import { BarRect, WatermarkBars } from './compositing/WatermarkBars';
+import { TiledWatermark, WatermarkTiles } from './compositing/WatermarkTiles';
+import { OverlayImage } from './compositing/images';
+import { ForensicWatermark, ForensicWatermarkOptions } from './forensics/ForensicWatermark';
+import { TextStyle, WebFont, drawTextBlock, fontString, layoutText, loadFonts } from './compositing/TextStyle';
+import { WatermarkLayer, WatermarkLayers } from './compositing/WatermarkLayers';
+import { TemplateContext, TemplateDataProvider, TemplateValue, renderTemplate } from './compositing/TextTemplate';
+import {
+  CanvasPlacement,
+  OutputOptions,
+  composePlacement,
+  fitPlacement,
+  fitRect,
+  resolveOutputSize
+} from './compositing/OutputOptions';
+import { makeWebmSeekable } from './muxers/WebmFixup';
+import { ChunkSink, SinkOptions, createChunkSink } from './sinks/ChunkSink';
+import { RecoverySink } from './sinks/RecoverySink';
+import { RecoverableSession, discardSession, listSessions, readSession } from './storage/RecoveryStore';
 
 export type WatermarkPosition = 
   | 'top-left' 
@@ -11,24 +49,45 @@ export type WatermarkPosition =
 
 export type ThicknessUnit = 'px' | '%';
 
+export type BarPosition = 'top' | 'bottom' | 'left' | 'right';
+
+// One piece of bar content, e.g. a logo at the start of the bar and a timestamp at its end
+export interface BarSegment {
+  text?: string; // May contain placeholders, see WatermarkOptions.text
+  image?: string | OverlayImage; // Logo
+  imageSize?: number; // Pixels across the bar; default: the bar thickness less textPadding on both sides
+  align?: 'left' | 'right' | 'center'; // Along the bar; on left/right bars 'left' is the top. Default: 'center'
+  textColor?: string; // Defaults to the bar's
+  textSize?: number;
+  textStyle?: TextStyle;
+}
+
 export interface WatermarkBar {
-  position: 'top' | 'bottom';
+  position: BarPosition; // Bars on the same edge stack inwards in list order
   thickness: number; // Thickness value
-  thicknessUnit: ThicknessUnit; // 'px' or '%'
+  thicknessUnit: ThicknessUnit; // 'px' or '%' of the frame height (top/bottom) or width (left/right)
   color: string; // Bar background color
-  text?: string; // Optional text inside the bar
+  text?: string; // Optional text inside the bar; may contain placeholders, see WatermarkOptions.text
   textColor?: string; // Text color
   textAlign?: 'left' | 'right' | 'center'; // Text alignment
   textSize?: number; // Text font size
   textPadding?: number; // Padding around text
+  textStyle?: TextStyle; // Font, outline, shadow, background box and wrapping
+  textOrientation?: 'rotated' | 'vertical' | 'horizontal'; // In left/right bars: turned to run along the bar (default), upright letters stacked, or level lines
+  segments?: BarSegment[]; // More content next to the text, such as logos or a second text
+  insetContent?: boolean; // Shrink the live content to fit inside this bar instead of covering it; default false
 }
 
 export interface WatermarkOptions {
-  // Text watermark
+  // Text watermark; placeholders such as {date:YYYY-MM-DD HH:mm:ss}, {utc}, {elapsed}, {frame} and {key} are filled every frame
   text?: string;
   position?: WatermarkPosition;
   fontSize?: number;
   color?: string;
+  textStyle?: TextStyle; // Font, outline, shadow, background box and wrapping; text may contain newlines
+
+  // Web fonts used by textStyle, loaded before the first frame
+  fonts?: WebFont[];
   
   // Image watermark
   image?: string | HTMLImageElement | HTMLCanvasElement; // Image URL, Image element, or Canvas element
@@ -39,39 +98,90 @@ export interface WatermarkOptions {
   
   // Watermark bars
   bars?: WatermarkBar[];
+
+  // Text or an image repeated across the whole frame at an angle, below the other watermark elements
+  tiled?: TiledWatermark;
+
+  // Timed text and image layers with transitions, drawn on top in list order
+  layers?: WatermarkLayer[];
+
+  // Values for custom {key} placeholders, called once per frame
+  data?: TemplateDataProvider;
 }
 
 export interface RecorderOptions {
   canvas?: HTMLCanvasElement; // Optional: can use external canvas instead
   externalCanvas?: HTMLCanvasElement; // Alternative: external canvas as input source
+  composite?: CompositeOptions; // Alternative: several canvases laid out in one frame
   watermark?: WatermarkOptions;
   fps?: number;
   videoBitsPerSecond?: number;
+  backend?: EncoderBackendType | 'auto'; // Default: 'auto' (WebCodecs when supported, else MediaRecorder)
+  container?: VideoContainer; // Preferred output container, default: WebM first, then MP4
+  codec?: VideoCodec; // Preferred codec; must be valid for the container
+  audio?: AudioOptions; // Audio sources mixed into the recording (realtime recordings only)
+  sink?: SinkOptions | ChunkSink; // Where encoded chunks go, default: memory
+  recovery?: boolean; // Also save chunks to IndexedDB as they arrive, for recoverSession() after a crash
+  seekable?: boolean; // Add a duration and cue index to WebM output when stopping, default: true
+  output?: OutputOptions; // Record at a fixed size instead of the source canvas size
+  crop?: CropOptions; // Record only part of the source canvas; can be keyframed and changed with setCrop()
+  overlays?: DomOverlayOptions[]; // DOM elements (markers, popups, legends) drawn in at their on-screen positions
+  camera?: CameraOptions; // Webcam or other video shown picture-in-picture
+  intro?: TitleCard; // Full-frame card at the start of the recording; in realtime recordings start() resolves once it has played
+  outro?: TitleCard; // Full-frame card at the end of the recording
+  forensicWatermark?: ForensicWatermarkOptions; // Invisible payload identifying who recorded; read back with extractWatermark()
+}
+
+export interface FrameCaptureOptions {
+  frameCount: number; // Number of frames of the scene to capture; title cards add frames of their own
+  renderFrame: (frameIndex: number, timeMs: number) => void | Promise<void>; // Advance the scene to this frame
+  onProgress?: (framesCaptured: number, frameCount: number) => void;
 }
 
 export interface RecordingData {
-  blob: Blob;
+  blob: Blob; // Read from disk for file sinks; empty for stream sinks
   url: string;
   duration: number;
+  file?: FileSystemFileHandle; // The persisted recording, for OPFS and file sinks
 }
 
 export class CanvasRecorder {
   private canvas: HTMLCanvasElement | null = null;
   private externalCanvas: HTMLCanvasElement | null = null;
+  private compositor: Compositor | null = null;
   private watermarkCanvas: HTMLCanvasElement | null = null;
   private watermarkCtx: CanvasRenderingContext2D | null = null;
-  private mediaRecorder: MediaRecorder | null = null;
-  private recordedChunks: Blob[] = [];
+  private encoder: EncoderBackend | null = null;
+  private audioMixer: AudioMixer | null = null;
+  private sink: ChunkSink | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve(); // Chunks are written one at a time, in order
+  private sinkError: Error | null = null;
   private startTime: number = 0;
+  private pauseStartTime: number | null = null;
+  private pausedDuration: number = 0;
   private options: RecorderOptions;
   private animationFrameId: number | null = null;
   private watermarkImage: HTMLImageElement | null = null;
   private watermarkImageLoaded: boolean = false;
+  private crop: CropKeyframe[] | null = null;
+  private captureMode: CaptureMode = 'realtime';
+  private watermarkTiles: WatermarkTiles | null = null;
+  private watermarkBars: WatermarkBars | null = null;
+  private watermarkLayers: WatermarkLayers | null = null;
+  private titleCards: TitleCards | null = null;
+  private forensicWatermark: ForensicWatermark | null = null;
+  private recordingEnd: number | null = null; // Known from the start in step recordings, from stop() in realtime ones
+  private stopping: Promise<RecordingData> | null = null;
+  private templateDataFailed: boolean = false; // Only the first failure of watermark.data is logged
+  private overlays: DomOverlayRenderer | null = null;
+  private camera: CameraOverlay | null = null;
+  private sourcePlacement: CanvasPlacement | null = null; // Where the last frame's source pixels were drawn
 
   constructor(options: RecorderOptions) {
     this.options = {
       fps: 30,
       videoBitsPerSecond: 5000000, // Increased default bitrate for better quality (5 Mbps)
+      backend: 'auto',
       ...options
     };
     
@@ -80,42 +190,95 @@ export class CanvasRecorder {
       this.externalCanvas = options.externalCanvas;
     } else if (options.canvas) {
       this.canvas = options.canvas;
+    } else if (options.composite) {
+      this.compositor = new Compositor(options.composite);
     } else {
-      throw new Error('Either canvas or externalCanvas must be provided');
+      throw new Error('One of canvas, externalCanvas or composite must be provided');
+    }
+
+    if (options.crop) {
+      this.crop = resolveCrop(options.crop);
+    }
+
+    if (options.overlays?.length) {
+      this.overlays = new DomOverlayRenderer(options.overlays);
+    }
+
+    if (options.camera) {
+      this.camera = new CameraOverlay(options.camera);
+    }
+
+    if (options.watermark?.tiled) {
+      this.watermarkTiles = new WatermarkTiles(options.watermark.tiled);
+    }
+
+    if (options.watermark?.bars?.length) {
+      this.watermarkBars = new WatermarkBars(options.watermark.bars);
+    }
+
+    if (options.watermark?.layers?.length) {
+      this.watermarkLayers = new WatermarkLayers(options.watermark.layers);
     }
 
-    if (options.watermark) {
+    if (options.intro || options.outro) {
+      this.titleCards = new TitleCards(options.intro, options.outro);
+    }
+
+    if (options.forensicWatermark) {
+      this.forensicWatermark = new ForensicWatermark(options.forensicWatermark);
+    }
+
+    if (this.needsCompositing()) {
       this.setupWatermark();
     }
   }
 
+  // Anything beyond a straight copy of the source is drawn into the hidden canvas first
+  private needsCompositing(): boolean {
+    return !!(this.options.watermark || this.options.output || this.crop || this.compositor || this.overlays || this.camera || this.titleCards || this.forensicWatermark);
+  }
+
   private getSourceCanvas(): HTMLCanvasElement {
-    return this.externalCanvas || this.canvas!;
+    return this.compositor?.canvas || this.externalCanvas || this.canvas!;
   }
 
   private async setupWatermark(): Promise<void> {
-    if (!this.options.watermark) return;
+    if (!this.needsCompositing()) return;
 
-    const sourceCanvas = this.getSourceCanvas();
-
-    // Create a hidden canvas for watermark overlay
+    // Create a hidden canvas for watermark overlay and output scaling
     // This canvas will copy the main canvas content and draw the watermark on top
     // The recording will capture from this hidden canvas instead of the original
     this.watermarkCanvas = document.createElement('canvas');
-    // Ensure watermark canvas matches the source canvas resolution exactly
-    this.watermarkCanvas.width = sourceCanvas.width;
-    this.watermarkCanvas.height = sourceCanvas.height;
+    this.resizeWatermarkCanvas();
     this.watermarkCtx = this.watermarkCanvas.getContext('2d', {
       alpha: false, // Disable alpha for better performance and quality
-      desynchronized: false // Ensure synchronized rendering
+      desynchronized: false, // Ensure synchronized rendering
+      willReadFrequently: !!this.forensicWatermark // The forensic watermark reads every frame back
     });
 
     // Load watermark image if provided
-    if (this.options.watermark.image) {
+    if (this.options.watermark?.image) {
       await this.loadWatermarkImage(this.options.watermark.image);
     }
   }
 
+  // The output size when one is set, else the size of the first crop rectangle,
+  // otherwise exactly the source canvas resolution
+  private resizeWatermarkCanvas(): void {
+    if (!this.watermarkCanvas) return;
+
+    const sourceCanvas = this.getSourceCanvas();
+    const region = this.crop ? cropAt(this.crop, 0, sourceCanvas.width, sourceCanvas.height) : sourceCanvas;
+    const { width, height } = this.options.output || this.crop
+      ? resolveOutputSize(this.options.output ?? {}, region.width, region.height)
+      : sourceCanvas;
+
+    if (this.watermarkCanvas.width !== width || this.watermarkCanvas.height !== height) {
+      this.watermarkCanvas.width = width;
+      this.watermarkCanvas.height = height;
+    }
+  }
+
   private async loadWatermarkImage(imageSource: string | HTMLImageElement | HTMLCanvasElement): Promise<void> {
     if (imageSource instanceof HTMLImageElement) {
       if (imageSource.complete && imageSource.naturalWidth > 0) {
@@ -161,113 +324,179 @@ export class CanvasRecorder {
     }
   }
 
-  private drawWatermark(): void {
-    if (!this.watermarkCanvas || !this.watermarkCtx || !this.options.watermark) return;
+  // timeMs is the recording time of the frame, which drives keyframed crops
+  private drawWatermark(timeMs: number): void {
+    if (!this.watermarkCanvas || !this.watermarkCtx) return;
 
-    const sourceCanvas = this.getSourceCanvas();
-    const watermark = this.options.watermark;
+    // Bars that inset the live content leave it a smaller part of the frame
+    const { width, height } = this.watermarkCanvas;
+    const area = this.watermarkBars?.contentArea(width, height) ?? { x: 0, y: 0, width, height };
 
     // Every frame: copy the source canvas content to the hidden watermark canvas
-    this.watermarkCtx.drawImage(sourceCanvas, 0, 0);
+    this.drawSource(timeMs, area);
+    this.drawOverlays();
 
-    // Draw watermark bars first (so text/image watermarks can appear on top)
-    if (watermark.bars && watermark.bars.length > 0) {
-      this.drawWatermarkBars(watermark.bars);
+    // Below the watermark, so bars and branding stay on top
+    if (this.camera) {
+      this.watermarkCtx.save();
+      this.watermarkCtx.translate(area.x, area.y);
+      this.camera.draw(this.watermarkCtx, area.width, area.height);
+      this.watermarkCtx.restore();
     }
 
-    // Draw text watermark
-    if (watermark.text) {
-      this.drawTextWatermark(watermark);
-    }
+    this.drawWatermarkElements(timeMs);
 
-    // Draw image watermark
-    if (watermark.image && this.watermarkImageLoaded && this.watermarkImage) {
-      this.drawImageWatermark(watermark);
-    }
+    // Last, so the mark is in every pixel that is recorded
+    this.forensicWatermark?.apply(this.watermarkCtx, width, height);
   }
 
-  private drawWatermarkBars(bars: WatermarkBar[]): void {
+  // The visible watermark: tiles, bars, text, image and layers, then the title cards
+  private drawWatermarkElements(timeMs: number): void {
     if (!this.watermarkCanvas || !this.watermarkCtx) return;
 
-    for (const bar of bars) {
-      const {
-        position,
-        thickness,
-        thicknessUnit,
-        color,
-        text,
-        textColor = '#ffffff',
-        textAlign = 'center',
-        textSize = 16,
-        textPadding = 10
-      } = bar;
-
-      // Calculate bar thickness
-      let barThickness: number;
-      if (thicknessUnit === '%') {
-        if (position === 'top' || position === 'bottom') {
-          barThickness = (this.watermarkCanvas.height * thickness) / 100;
-        } else {
-          barThickness = (this.watermarkCanvas.width * thickness) / 100;
-        }
-      } else {
-        barThickness = thickness;
+    const { width, height } = this.watermarkCanvas;
+    const watermark = this.options.watermark;
+    if (!watermark && !this.titleCards) return;
+
+    const renderText = this.createTextRenderer(watermark, timeMs);
+
+    if (watermark) {
+      this.watermarkTiles?.draw(this.watermarkCtx, width, height, renderText);
+
+      // Draw watermark bars first (so text/image watermarks can appear on top)
+      this.watermarkBars?.draw(this.watermarkCtx, width, height, renderText);
+
+      // Draw text watermark
+      if (watermark.text) {
+        this.drawTextWatermark(watermark, renderText(watermark.text));
       }
 
-      // Draw the bar
-      this.watermarkCtx.fillStyle = color;
-      if (position === 'top') {
-        this.watermarkCtx.fillRect(0, 0, this.watermarkCanvas.width, barThickness);
-      } else if (position === 'bottom') {
-        this.watermarkCtx.fillRect(0, this.watermarkCanvas.height - barThickness, this.watermarkCanvas.width, barThickness);
+      // Draw image watermark
+      if (watermark.image && this.watermarkImageLoaded && this.watermarkImage) {
+        this.drawImageWatermark(watermark);
       }
 
-      // Draw text inside the bar if provided
-      if (text) {
-        this.watermarkCtx.fillStyle = textColor;
-        this.watermarkCtx.font = `${textSize}px Arial`;
-        this.watermarkCtx.textBaseline = 'middle';
-
-        let textX: number;
-        const textY = position === 'top' 
-          ? barThickness / 2 
-          : this.watermarkCanvas.height - barThickness / 2;
-
-        const metrics = this.watermarkCtx.measureText(text);
-
-        switch (textAlign) {
-          case 'left':
-            textX = textPadding;
-            break;
-          case 'right':
-            textX = this.watermarkCanvas.width - metrics.width - textPadding;
-            break;
-          case 'center':
-          default:
-            textX = (this.watermarkCanvas.width - metrics.width) / 2;
-            break;
+      this.watermarkLayers?.draw(
+        this.watermarkCtx,
+        this.watermarkCanvas.width,
+        this.watermarkCanvas.height,
+        timeMs,
+        this.recordingEnd,
+        renderText
+      );
+    }
+
+    // Cards cover everything, watermark included
+    this.titleCards?.draw(
+      this.watermarkCtx,
+      this.watermarkCanvas.width,
+      this.watermarkCanvas.height,
+      timeMs,
+      this.recordingEnd,
+      renderText
+    );
+  }
+
+  // Fills template placeholders for one frame; step recordings take their wall-clock time from the frame time
+  private createTextRenderer(watermark: WatermarkOptions | undefined, timeMs: number): (text: string) => string {
+    const context: TemplateContext = {
+      timestamp: this.captureMode === 'step' ? this.startTime + timeMs : Date.now(),
+      elapsed: timeMs,
+      frame: Math.round((timeMs * this.options.fps!) / 1000)
+    };
+
+    let data: Record<string, TemplateValue> = {};
+    if (watermark?.data) {
+      try {
+        data = watermark.data(context);
+      } catch (error) {
+        if (!this.templateDataFailed) {
+          this.templateDataFailed = true;
+          console.warn('Watermark data function failed; its placeholders are left unfilled:', error);
         }
+      }
+    }
 
-        this.watermarkCtx.fillText(text, textX, textY);
+    return (text) => renderTemplate(text, context, data);
+  }
+
+  // area is the part of the frame the source is fitted into
+  private drawSource(timeMs: number, area: BarRect): void {
+    if (!this.watermarkCanvas || !this.watermarkCtx) return;
+
+    const sourceCanvas = this.getSourceCanvas();
+    const output = this.options.output;
+
+    const { width, height } = this.watermarkCanvas;
+    const fullFrame = area.width === width && area.height === height;
+    if (!output && !this.crop && fullFrame && width === sourceCanvas.width && height === sourceCanvas.height) {
+      if (this.compositor) {
+        this.compositor.draw(this.watermarkCtx);
+      } else {
+        this.watermarkCtx.drawImage(sourceCanvas, 0, 0);
       }
+      this.sourcePlacement = fitPlacement(fitRect(width, height, width, height, 'stretch'));
+      return;
     }
+
+    // A composite frame is rendered on its own first, then cropped and scaled like any other source
+    this.compositor?.render();
+
+    // Fitted per frame, since a high-DPI source can change size and a keyframed crop moves while recording
+    const region = this.crop
+      ? cropAt(this.crop, timeMs, sourceCanvas.width, sourceCanvas.height)
+      : { x: 0, y: 0, width: sourceCanvas.width, height: sourceCanvas.height };
+    const rect = fitRect(region.width, region.height, area.width, area.height, output?.fit ?? 'contain');
+
+    if (rect.dw < width || rect.dh < height) {
+      this.watermarkCtx.fillStyle = output?.background ?? '#000000';
+      this.watermarkCtx.fillRect(0, 0, width, height);
+    }
+
+    this.watermarkCtx.imageSmoothingEnabled = true;
+    this.watermarkCtx.imageSmoothingQuality = 'high';
+    this.watermarkCtx.drawImage(
+      sourceCanvas,
+      region.x + rect.sx, region.y + rect.sy, rect.sw, rect.sh,
+      area.x + rect.dx, area.y + rect.dy, rect.dw, rect.dh
+    );
+    this.sourcePlacement = fitPlacement({ ...rect, sx: region.x + rect.sx, sy: region.y + rect.sy }, area.x, area.y);
+  }
+
+  // DOM overlays follow the source pixels they sit over through cropping, scaling and compositing
+  private drawOverlays(): void {
+    const sourcePlacement = this.sourcePlacement;
+    if (!this.overlays || !this.watermarkCtx || !sourcePlacement) return;
+
+    const sourceCanvas = this.getSourceCanvas();
+    const compositor = this.compositor;
+    const defaultCanvas = compositor ? compositor.baseCanvas : sourceCanvas;
+
+    this.overlays.draw(this.watermarkCtx, defaultCanvas, (canvas) => {
+      if (compositor) {
+        const placement = compositor.placementOf(canvas);
+        return placement && composePlacement(placement, sourcePlacement);
+      }
+      return canvas === sourceCanvas ? sourcePlacement : null;
+    });
   }
 
-  private drawTextWatermark(watermark: WatermarkOptions): void {
-    if (!this.watermarkCanvas || !this.watermarkCtx || !watermark.text) return;
+  private drawTextWatermark(watermark: WatermarkOptions, text: string): void {
+    if (!this.watermarkCanvas || !this.watermarkCtx || !text) return;
 
     const {
-      text,
       position = 'bottom-right',
       fontSize = 16,
-      color = 'rgba(255, 255, 255, 0.7)'
+      color = 'rgba(255, 255, 255, 0.7)',
+      textStyle
     } = watermark;
 
-    this.watermarkCtx.font = `${fontSize}px Arial`;
-    this.watermarkCtx.fillStyle = color;
-    
-    const metrics = this.watermarkCtx.measureText(text);
-    const padding = 10;
+    // A background box is kept inside the frame too
+    const boxPadding = textStyle?.background ? textStyle.background.padding ?? 6 : 0;
+    const padding = 10 + boxPadding;
+    const block = layoutText(this.watermarkCtx, text, fontSize, textStyle, this.watermarkCanvas.width - 2 * padding);
+    // At the bottom corners the last line sits where a single line would, and the lines above move up
+    const bottomOffset = (block.lines.length - 1) * block.lineHeight + (boxPadding > 0 ? block.descent : 0);
     let x: number;
     let y: number;
 
@@ -283,22 +512,43 @@ export class CanvasRecorder {
           y = padding + fontSize;
           break;
         case 'top-right':
-          x = this.watermarkCanvas.width - metrics.width - padding;
+          x = this.watermarkCanvas.width - block.width - padding;
           y = padding + fontSize;
           break;
         case 'bottom-left':
           x = padding;
-          y = this.watermarkCanvas.height - padding;
+          y = this.watermarkCanvas.height - padding - bottomOffset;
           break;
         case 'bottom-right':
         default:
-          x = this.watermarkCanvas.width - metrics.width - padding;
-          y = this.watermarkCanvas.height - padding;
+          x = this.watermarkCanvas.width - block.width - padding;
+          y = this.watermarkCanvas.height - padding - bottomOffset;
           break;
       }
     }
 
-    this.watermarkCtx.fillText(text, x, y);
+    const rightAligned = position === 'top-right' || position === 'bottom-right';
+    drawTextBlock(this.watermarkCtx, block, x, y, color, textStyle?.align ?? (rightAligned ? 'right' : 'left'), textStyle);
+  }
+
+  // Web fonts have to be ready before the first frame, or it is drawn in a fallback font
+  private async loadWatermarkFonts(): Promise<void> {
+    const watermark = this.options.watermark;
+
+    const fonts: string[] = [];
+    if (watermark?.text) {
+      fonts.push(fontString(watermark.fontSize ?? 16, watermark.textStyle));
+    }
+    fonts.push(...(this.watermarkTiles?.fonts ?? []));
+    fonts.push(...(this.watermarkBars?.fonts ?? []));
+    fonts.push(...(this.watermarkLayers?.fonts ?? []));
+    if (this.titleCards && this.watermarkCanvas) {
+      fonts.push(...this.titleCards.fonts(this.watermarkCanvas.height));
+    }
+
+    if (fonts.length > 0 || watermark?.fonts?.length) {
+      await loadFonts(watermark?.fonts ?? [], fonts);
+    }
   }
 
   private drawImageWatermark(watermark: WatermarkOptions): void {
@@ -372,131 +622,488 @@ export class CanvasRecorder {
   }
 
   async start(): Promise<void> {
-    this.recordedChunks = [];
-    this.startTime = Date.now();
+    this.recordingEnd = null;
+    await this.startEncoder('realtime');
+
+    // Start the frame loop to continuously update the hidden canvas and feed the encoder
+    // This uses requestAnimationFrame to draw the source canvas into the watermark canvas every frame
+    // while recording, then draws the watermark on top
+    this.updateFrameLoop();
+
+    // The intro comes before the live content: resolving once it has played lets the caller start the scene after it
+    await this.playIntro();
+  }
+
+  // Waits until the intro has been recorded; a recording stopped meanwhile ends the wait
+  private playIntro(): Promise<void> {
+    return this.waitForElapsed(this.titleCards?.introDuration ?? 0);
+  }
+
+  // Waits until timeMs of recording time has been recorded, pauses excluded, or the recording has ended
+  private async waitForElapsed(timeMs: number): Promise<void> {
+    while (this.encoder && this.encoder.state !== 'inactive' && this.getElapsedTime() < timeMs) {
+      // While paused the remaining time doesn't shrink, so this checks again after that long
+      await new Promise(resolve => setTimeout(resolve, timeMs - this.getElapsedTime()));
+    }
+  }
+
+  /**
+   * Record a fixed number of frames in step mode, independent of wall-clock time.
+   * renderFrame() advances the scene, then exactly one frame is captured for it,
+   * so slow frames never stutter or drop in the output. Only the WebCodecs backend is exact:
+   * the MediaRecorder fallback shows each frame for one timer tick of wall-clock time, so frame
+   * timing jitters and stretches when the tab is in the background. pause() and resume() are
+   * ignored while capturing.
+   */
+  async recordFrames(options: FrameCaptureOptions): Promise<RecordingData> {
+    if (this.encoder && this.encoder.state !== 'inactive') {
+      throw new Error('Recording already in progress');
+    }
+
+    const { frameCount, renderFrame, onProgress } = options;
+    if (!Number.isInteger(frameCount) || frameCount <= 0) {
+      throw new Error('frameCount must be a positive integer');
+    }
+
+    const frameDuration = 1000 / this.options.fps!;
+
+    // Title cards get frames of their own before and after the scene's, which hold its first and last frame
+    const introFrames = Math.round((this.titleCards?.introDuration ?? 0) / frameDuration);
+    const outroFrames = Math.round((this.titleCards?.outroDuration ?? 0) / frameDuration);
+    const totalFrames = introFrames + frameCount + outroFrames;
+
+    this.recordingEnd = totalFrames * frameDuration;
+    const encoder = await this.startEncoder('step');
+
+    try {
+      let renderedIndex = -1;
+      for (let index = 0; index < totalFrames; index++) {
+        const frameIndex = Math.min(Math.max(index - introFrames, 0), frameCount - 1);
+        if (frameIndex !== renderedIndex) {
+          await renderFrame(frameIndex, frameIndex * frameDuration);
+          renderedIndex = frameIndex;
+        }
+
+        // Wait for overlay rasters, so each frame shows the DOM as it was for that frame
+        const timeMs = index * frameDuration;
+        await this.overlays?.refresh(timeMs);
+        if (this.watermarkCanvas) {
+          this.drawWatermark(timeMs);
+        }
+
+        await encoder.captureFrame(timeMs);
+        onProgress?.(index + 1, totalFrames);
+      }
+    } catch (error) {
+      await this.stop().catch(() => undefined);
+      throw error;
+    }
+
+    const recording = await this.stop();
+
+    return {
+      ...recording,
+      duration: totalFrames * frameDuration
+    };
+  }
+
+  private async startEncoder(mode: CaptureMode): Promise<EncoderBackend> {
+    this.captureMode = mode;
+    this.templateDataFailed = false;
 
     // Ensure watermark is set up (including image loading)
-    if (this.options.watermark && !this.watermarkCanvas) {
+    if (this.needsCompositing() && !this.watermarkCanvas) {
       await this.setupWatermark();
     }
 
+    // The source may have been resized since the canvas was created; the size is fixed from here on
+    this.resizeWatermarkCanvas();
+
+    // Loaded before the clock starts, so slow fonts and images don't cut into the intro
+    await this.loadWatermarkFonts();
+    await this.watermarkTiles?.load();
+    await this.watermarkBars?.load();
+    await this.watermarkLayers?.load();
+    await this.titleCards?.load();
+    await this.forensicWatermark?.load();
+
+    this.startTime = Date.now();
+    this.pauseStartTime = null;
+    this.pausedDuration = 0;
+    this.forensicWatermark?.begin(this.startTime);
+
     // Get the canvas to record (with or without watermark)
     // When watermark is enabled, we record from the hidden watermark canvas
     // Otherwise, we record directly from the original canvas
     const sourceCanvas = this.getSourceCanvas();
     const canvasToRecord = this.watermarkCanvas || sourceCanvas;
 
-    // If we have a watermark, draw it immediately before capturing the stream
-    // This ensures the watermark canvas has content when the stream starts
+    // If we have a watermark, draw it immediately before the encoder starts
+    // This ensures the watermark canvas has content when the first frame is captured
+    await this.overlays?.refresh(0);
     if (this.watermarkCanvas) {
-      this.drawWatermark();
+      this.drawWatermark(0);
     }
 
-    // Capture the canvas stream from the selected canvas (watermark canvas or original)
-    const stream = canvasToRecord.captureStream(this.options.fps);
+    // Audio follows wall-clock time, so step recordings are always silent
+    const recordAudio = mode === 'realtime' && !!this.options.audio;
+
+    const support = await CanvasRecorder.getSupportedMimeType({
+      backend: this.options.backend,
+      container: this.options.container,
+      codec: this.options.codec,
+      width: canvasToRecord.width,
+      height: canvasToRecord.height,
+      fps: this.options.fps,
+      videoBitsPerSecond: this.options.videoBitsPerSecond,
+      audio: recordAudio
+    });
 
-    // Create MediaRecorder with quality settings
-    const mimeType = this.getSupportedMimeType();
-    const recorderOptions: MediaRecorderOptions = {
-      mimeType,
-      videoBitsPerSecond: this.options.videoBitsPerSecond
-    };
+    // Nothing is written yet, so a failing input only needs the inputs started so far released
+    let audioStream: MediaStream | undefined;
+    try {
+      if (recordAudio) {
+        this.audioMixer = new AudioMixer();
+        audioStream = await this.audioMixer.start(this.options.audio!);
+      }
+      await this.camera?.start();
+    } catch (error) {
+      this.stopInputs();
+      throw error;
+    }
+
+    let sink = createChunkSink(this.options.sink);
+    if (this.options.recovery) {
+      sink = new RecoverySink(sink, {
+        fps: this.options.fps!,
+        width: canvasToRecord.width,
+        height: canvasToRecord.height,
+        getDuration: () => this.getElapsedTime()
+      });
+    }
 
-    // Add codec-specific quality settings if VP9 is supported
-    if (mimeType.includes('vp9')) {
-      // VP9 supports quality settings - use high quality
-      recorderOptions.videoBitsPerSecond = this.options.videoBitsPerSecond;
+    try {
+      await sink.open(support.mimeType);
+    } catch (error) {
+      this.stopInputs();
+      throw error;
     }
+    this.sink = sink;
+    this.pendingWrite = Promise.resolve();
+    this.sinkError = null;
+
+    const backendOptions: EncoderBackendOptions = {
+      canvas: canvasToRecord,
+      fps: this.options.fps!,
+      videoBitsPerSecond: this.options.videoBitsPerSecond!,
+      mode,
+      audio: audioStream,
+      onData: (chunk) => this.writeChunk(sink, chunk)
+    };
+
+    this.encoder = support.backend === 'webcodecs'
+      ? new WebCodecsBackend(backendOptions, support)
+      : new MediaRecorderBackend(backendOptions, support.mimeType);
 
-    this.mediaRecorder = new MediaRecorder(stream, recorderOptions);
+    try {
+      await this.encoder.start();
+    } catch (error) {
+      this.stopInputs();
+      await this.abortSink();
+      throw error;
+    }
+    return this.encoder;
+  }
 
-    this.mediaRecorder.ondataavailable = (event) => {
-      if (event.data.size > 0) {
-        this.recordedChunks.push(event.data);
+  private writeChunk(sink: ChunkSink, chunk: Blob): void {
+    this.pendingWrite = this.pendingWrite.then(async () => {
+      // After a failed write the recording is lost, so stop writing; stop() reports the error
+      if (this.sinkError) return;
+      try {
+        await sink.write(chunk);
+      } catch (error) {
+        this.sinkError = error instanceof Error ? error : new Error('Failed to write recording chunk');
+        console.warn('Failed to write recording chunk:', error);
       }
-    };
+    });
+  }
 
-    this.mediaRecorder.start(100); // Collect data every 100ms
+  private async closeSink(mimeType: string): Promise<Omit<RecordingData, 'duration'>> {
+    const sink = this.sink!;
+    await this.pendingWrite;
 
-    // If we have a watermark, start the animation loop to continuously update the hidden canvas
-    // This uses requestAnimationFrame to draw the source canvas into the watermark canvas every frame
-    // while recording, then draws the watermark on top
-    if (this.watermarkCanvas) {
-      this.updateWatermarkLoop();
+    if (this.sinkError) {
+      await this.abortSink();
+      throw this.sinkError;
+    }
+
+    this.sink = null;
+    let result = await sink.close();
+
+    // Sinks label the data with the type they were opened with; the encoder knows the final one
+    if (result.blob.type !== mimeType) {
+      result = { ...result, blob: result.blob.slice(0, result.blob.size, mimeType) };
     }
+
+    // Streamed WebM has no duration or cues; stream sinks have already passed the data on
+    if (this.options.seekable !== false && sink.rewrite && result.blob.size > 0 && mimeType.startsWith('video/webm')) {
+      try {
+        result = await sink.rewrite(await makeWebmSeekable(result.blob));
+      } catch (error) {
+        console.warn('Failed to make the WebM recording seekable:', error);
+      }
+    }
+
+    const { blob, file } = result;
+    return { blob, url: URL.createObjectURL(blob), file };
   }
 
-  private updateWatermarkLoop(): void {
+  private async abortSink(): Promise<void> {
+    await this.pendingWrite;
+    await this.sink?.abort();
+    this.sink = null;
+  }
+
+  private updateFrameLoop(): void {
     // Only continue if we're still recording
-    if (!this.isRecording()) {
+    if (!this.encoder || !this.isRecording()) {
       this.animationFrameId = null;
       return;
     }
 
+    const elapsed = this.getElapsedTime();
+
+    // Overlays are re-rasterized in the background at their own rates; until then the last raster is drawn
+    this.overlays?.refresh(elapsed);
+
     // Every frame: copy the source canvas to the watermark canvas, then draw watermark on top
-    this.drawWatermark();
-    
+    if (this.watermarkCanvas) {
+      this.drawWatermark(elapsed);
+    }
+
+    // Backends that capture the canvas stream themselves ignore this
+    this.encoder.captureFrame(elapsed).catch((error) => {
+      console.warn('Failed to capture frame:', error);
+    });
+
     // Schedule the next frame update
-    this.animationFrameId = requestAnimationFrame(() => this.updateWatermarkLoop());
+    this.animationFrameId = requestAnimationFrame(() => this.updateFrameLoop());
+  }
+
+  pause(): void {
+    // In step mode the recorder pauses and resumes the encoder around each frame itself
+    if (this.captureMode === 'step') return;
+    if (!this.encoder || this.encoder.state !== 'recording') return;
+
+    this.encoder.pause();
+    this.pauseStartTime = Date.now();
+
+    // Suspend the frame loop so the hidden canvas stops being redrawn while paused
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  resume(): void {
+    if (this.captureMode === 'step') return;
+    if (!this.encoder || this.encoder.state !== 'paused') return;
+
+    if (this.pauseStartTime !== null) {
+      this.pausedDuration += Date.now() - this.pauseStartTime;
+      this.pauseStartTime = null;
+    }
+
+    this.encoder.resume();
+
+    // Redraw immediately so the first frame after resuming is up to date, then restart the loop
+    this.updateFrameLoop();
   }
 
-  private getSupportedMimeType(): string {
-    // Prioritize VP9 for better quality, then VP8, then fallback
-    const types = [
-      'video/webm;codecs=vp9', // Best quality codec
-      'video/webm;codecs=vp8',
-      'video/webm',
-      'video/mp4'
-    ];
+  /**
+   * Elapsed recording time in milliseconds, excluding time spent paused
+   */
+  getElapsedTime(): number {
+    if (!this.encoder) return 0;
 
-    for (const type of types) {
-      if (MediaRecorder.isTypeSupported(type)) {
-        return type;
+    const now = this.pauseStartTime ?? Date.now();
+    return now - this.startTime - this.pausedDuration;
+  }
+
+  /**
+   * Probe which backend, container and codec this browser can record with.
+   * Returns the best match for the requested options; WebCodecs is preferred and
+   * MediaRecorder is the fallback.
+   */
+  static async getSupportedMimeType(options: EncoderProbeOptions = {}): Promise<EncoderSupport> {
+    const backend = options.backend ?? 'auto';
+    const [best] = await probeEncoderSupport(options);
+    if (best) return best;
+
+    // Nothing matched the requested container/codec; let MediaRecorder pick whatever it can
+    if (backend !== 'webcodecs') {
+      const [fallback] = await probeEncoderSupport({ backend: 'mediarecorder', audio: options.audio });
+      if (fallback) return fallback;
+      return { backend: 'mediarecorder', container: 'webm', mimeType: 'video/webm' };
+    }
+
+    throw new Error('WebCodecs encoding is not supported for the requested container and codec');
+  }
+
+  /**
+   * Recordings made with the recovery option that never stopped, e.g. because the tab crashed
+   * or was reloaded; newest first. Recordings still running on this page are left out.
+   */
+  static listRecoverableSessions(): Promise<RecoverableSession[]> {
+    return listSessions();
+  }
+
+  /**
+   * Rebuild a recording from the chunks saved before it was interrupted. The session is kept,
+   * and the blob stays readable, until discardRecoverableSession() is called.
+   */
+  static async recoverSession(id: string): Promise<RecordingData> {
+    const { session, chunks } = await readSession(id);
+    if (chunks.length === 0) {
+      throw new Error('The session has no recorded data');
+    }
+
+    let blob = new Blob(chunks, { type: session.mimeType });
+
+    // The recording never got to stop(), so its WebM fix-up happens here; it also drops a half-written last block
+    if (session.mimeType.startsWith('video/webm')) {
+      try {
+        blob = await makeWebmSeekable(blob);
+      } catch (error) {
+        console.warn('Failed to make the recovered WebM recording seekable:', error);
       }
     }
 
-    return 'video/webm';
+    return {
+      blob,
+      url: URL.createObjectURL(blob),
+      duration: session.duration
+    };
   }
 
+  static discardRecoverableSession(id: string): Promise<void> {
+    return discardSession(id);
+  }
+
+  /**
+   * Stop recording. Realtime recordings with watermark layers timed from the end keep recording
+   * until those layers have played.
+   */
   stop(): Promise<RecordingData> {
+    // Calls made while the end plays out share its result
+    if (this.stopping) return this.stopping;
+    if (!this.encoder || this.encoder.state === 'inactive') {
+      return Promise.reject(new Error('No active recording'));
+    }
+
+    this.stopping = this.playOut()
+      .then(() => this.finishRecording())
+      .finally(() => {
+        this.stopping = null;
+      });
+    return this.stopping;
+  }
+
+  // Fixes the end of a realtime recording and waits until whatever is timed from it has been recorded.
+  // A paused recording is resumed for it; pausing meanwhile holds the end until resume().
+  private async playOut(): Promise<void> {
+    if (this.captureMode !== 'realtime') return;
+
+    const tail = Math.max(this.watermarkLayers?.tail ?? 0, this.titleCards?.outroDuration ?? 0);
+    if (tail <= 0) return;
+
+    this.resume();
+    this.recordingEnd = this.getElapsedTime() + tail;
+    await this.waitForElapsed(this.recordingEnd);
+  }
+
+  private finishRecording(): Promise<RecordingData> {
     return new Promise((resolve, reject) => {
-      if (!this.mediaRecorder) {
+      if (!this.encoder || this.encoder.state === 'inactive') {
         reject(new Error('No active recording'));
         return;
       }
 
-      // Stop the animation loop if running
+      // Stop the frame loop if running
       if (this.animationFrameId !== null) {
         cancelAnimationFrame(this.animationFrameId);
         this.animationFrameId = null;
       }
 
-      this.mediaRecorder.onstop = () => {
-        const duration = Date.now() - this.startTime;
-        const blob = new Blob(this.recordedChunks, { type: 'video/webm' });
-        const url = URL.createObjectURL(blob);
+      // Capture the duration before stopping so a recording stopped while paused
+      // doesn't count the final pause
+      const duration = this.getElapsedTime();
+      const encoder = this.encoder;
 
+      encoder.stop().finally(() => this.stopInputs()).then(
+        () => this.closeSink(encoder.mimeType),
+        async (error) => {
+          await this.abortSink();
+          throw error;
+        }
+      ).then((recording) => {
         resolve({
-          blob,
-          url,
+          ...recording,
           duration
         });
-      };
+      }, reject);
+    });
+  }
 
-      this.mediaRecorder.stop();
+  /**
+   * Change the crop while recording or between recordings; keyframe times stay relative to the recording start.
+   * null records the whole source again. The recording size was fixed when it started,
+   * so a crop of a different shape is fitted into it.
+   */
+  setCrop(crop: CropOptions | null): void {
+    // Without a hidden canvas the encoder is reading the source canvas directly
+    if (crop && !this.watermarkCanvas && this.encoder && this.encoder.state !== 'inactive') {
+      throw new Error('Set a crop before starting the recording to be able to change it while recording');
+    }
+    this.crop = crop ? resolveCrop(crop) : null;
+  }
 
-      // Stop all tracks
-      const stream = this.mediaRecorder.stream;
-      stream.getTracks().forEach(track => track.stop());
-    });
+  /**
+   * Replace the composite sources and their layout, e.g. to switch from side by side to picture-in-picture.
+   * Works while recording; the composite frame size stays the same.
+   */
+  setCompositeLayout(sources: CompositeSource[]): void {
+    if (!this.compositor) {
+      throw new Error('The recorder was not created with the composite option');
+    }
+    this.compositor.setSources(sources);
+  }
+
+  /**
+   * Change the recording volume of an audio source, by its index in the audio option
+   */
+  setAudioGain(index: number, gain: number): void {
+    this.audioMixer?.setGain(index, gain);
+  }
+
+  // Release the microphone, webcam and other inputs opened for the recording
+  private stopInputs(): void {
+    this.audioMixer?.stop();
+    this.audioMixer = null;
+    this.camera?.stop();
   }
 
   isRecording(): boolean {
-    return this.mediaRecorder?.state === 'recording';
+    return this.encoder?.state === 'recording';
+  }
+
+  isPaused(): boolean {
+    return this.encoder?.state === 'paused';
   }
 
   updateCanvasSize(width: number, height: number): void {
-    if (this.watermarkCanvas) {
+    // With an output size or a crop the recording keeps its size and the source is fitted into it
+    if (this.watermarkCanvas && !this.options.output && !this.crop) {
       this.watermarkCanvas.width = width;
       this.watermarkCanvas.height = height;
     }
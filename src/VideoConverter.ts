@@ -1,81 +1,361 @@
 /**
  * Video Converter class that uses Web Worker for FFmpeg conversion
  */
+import { AnimationOptions, resolveAnimationOptions } from './conversion/AnimationOptions';
+import { ConversionOptions, resolveConversionOptions } from './conversion/ConversionOptions';
+import { EditSegment, TimeRange, concatSegments, cutSegments, trimSegments } from './conversion/EditOptions';
+import { FFmpegCoreOptions, ResolvedCoreOptions, resolveCoreOptions } from './conversion/FFmpegCore';
+import { JobPayload, JobRequest, JobStatus, LoadRequest, StatusRequest, WorkerResponse } from './workers/protocol';
+
 export interface ConversionProgress {
-  time: string | number;
+  jobId: number; // Identifies the call this progress belongs to
+  percent: number; // 0-100, from the probed input duration
+  elapsed: number; // Milliseconds since the job started running
+  eta?: number; // Estimated milliseconds remaining; undefined until there is progress to go on
+  time: number; // Seconds of output written by the current FFmpeg pass
   message: string;
 }
 
+export interface VideoConverterOptions extends FFmpegCoreOptions {
+  workers?: number; // Jobs that may run at once, each worker loading its own FFmpeg core; default 1
+}
+
+// One worker of the pool and the jobs and requests sent to it that haven't settled yet, each with a way to fail it
+interface PooledWorker {
+  worker: Worker;
+  jobs: Map<number, (error: Error) => void>;
+  requests: Map<number, (error: Error) => void>;
+}
+
 export class VideoConverter {
-  private worker: Worker | null = null;
+  private workers: PooledWorker[] = [];
+  private maxWorkers: number;
+  private jobWorkers = new Map<number, PooledWorker>();
+  private coreOptions: ResolvedCoreOptions;
+  private nextJobId: number = 1;
 
-  constructor() {
-    // Worker will be initialized when needed
+  constructor(options: VideoConverterOptions = {}) {
+    const { workers = 1, ...coreOptions } = options;
+    if (!Number.isInteger(workers) || workers < 1) {
+      throw new Error('workers must be a positive integer');
+    }
+    this.maxWorkers = workers;
+
+    // Relative core URLs are relative to the page, so resolve them here rather than in the worker
+    const baseURI = typeof document !== 'undefined' ? document.baseURI : self.location.href;
+    this.coreOptions = resolveCoreOptions(coreOptions, baseURI);
+    // Workers will be initialized when needed
   }
 
-  private initWorker(): Worker {
-    if (!this.worker) {
-      this.worker = new Worker(
-        new URL('./workers/ffmpeg-worker.ts', import.meta.url),
-        { type: 'module' }
-      );
-    }
-    return this.worker;
+  private createWorker(): PooledWorker {
+    const worker = new Worker(
+      new URL('./workers/ffmpeg-worker.ts', import.meta.url),
+      { type: 'module' }
+    );
+    const pooled: PooledWorker = { worker, jobs: new Map(), requests: new Map() };
+
+    // A worker that fails to load or crashes would never answer, so everything sent to it fails instead
+    worker.addEventListener('error', (event) => {
+      event.preventDefault();
+      this.failWorker(pooled, new Error(`FFmpeg worker failed: ${event.message || 'the worker script could not be loaded'}`));
+    });
+    worker.addEventListener('messageerror', () => {
+      this.failWorker(pooled, new Error('FFmpeg worker sent a message that could not be read'));
+    });
+
+    worker.postMessage({ type: 'configure', core: this.coreOptions });
+    this.workers.push(pooled);
+    return pooled;
+  }
+
+  // Take a worker out of the pool and reject whatever it still owed
+  private failWorker(pooled: PooledWorker, error: Error): void {
+    this.workers = this.workers.filter(other => other !== pooled);
+    pooled.worker.terminate();
+
+    const failures = [...pooled.jobs.values(), ...pooled.requests.values()];
+    failures.forEach(fail => fail(error));
+  }
+
+  /**
+   * Pick the worker for a new job: an idle one, then a new one while the pool has room,
+   * otherwise the one with the fewest jobs, where it waits in that worker's queue
+   */
+  private acquireWorker(): PooledWorker {
+    const idle = this.workers.find(pooled => pooled.jobs.size === 0);
+    if (idle) return idle;
+    if (this.workers.length < this.maxWorkers) return this.createWorker();
+    return this.workers.reduce((least, pooled) => (pooled.jobs.size < least.jobs.size ? pooled : least));
   }
 
+  /**
+   * Load the FFmpeg core ahead of the first job, in every worker of the pool
+   */
   async loadFFmpeg(onProgress?: (message: string) => void): Promise<void> {
+    while (this.workers.length < this.maxWorkers) {
+      this.createWorker();
+    }
+    await Promise.all(
+      this.workers.map(pooled =>
+        this.request(pooled, { type: 'load', requestId: this.nextJobId++ }, onProgress)
+      )
+    );
+  }
+
+  /**
+   * Jobs that haven't finished, across all workers: each worker's running job, then its queue in order
+   */
+  async getStatus(): Promise<JobStatus[]> {
+    const responses = await Promise.all(
+      this.workers.map(pooled => this.request(pooled, { type: 'status', requestId: this.nextJobId++ }))
+    );
+    return responses.flatMap(response => (response.type === 'status' ? response.jobs : []));
+  }
+
+  /**
+   * Status of one job by the jobId its progress reports carry; null once it has finished
+   */
+  async getJobStatus(jobId: number): Promise<JobStatus | null> {
+    const pooled = this.jobWorkers.get(jobId);
+    if (!pooled) return null;
+
+    const response = await this.request(pooled, { type: 'status', requestId: this.nextJobId++ });
+    return (response.type === 'status' && response.jobs.find(job => job.jobId === jobId)) || null;
+  }
+
+  /**
+   * Send a request that isn't a job and wait for the response carrying its requestId
+   */
+  private request(
+    pooled: PooledWorker,
+    request: LoadRequest | StatusRequest,
+    onLog?: (message: string) => void
+  ): Promise<WorkerResponse> {
+    const { worker } = pooled;
     return new Promise((resolve, reject) => {
-      const worker = this.initWorker();
-
-      const handleMessage = (event: MessageEvent) => {
-        const { type, message, error } = event.data;
-
-        if (type === 'loaded') {
-          worker.removeEventListener('message', handleMessage);
-          resolve();
-        } else if (type === 'error') {
-          worker.removeEventListener('message', handleMessage);
-          reject(new Error(error));
-        } else if (type === 'log' && onProgress) {
-          onProgress(message);
+      const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+
+        // Core loading logs aren't tied to this request, so pass them all on
+        if (response.type === 'log') {
+          onLog?.(response.message);
+          return;
+        }
+        if (!('requestId' in response) || response.requestId !== request.requestId) return;
+
+        cleanup();
+        if (response.type === 'error') {
+          reject(new Error(response.error));
+        } else {
+          resolve(response);
         }
       };
 
+      const cleanup = () => {
+        worker.removeEventListener('message', handleMessage);
+        pooled.requests.delete(request.requestId);
+      };
+
+      pooled.requests.set(request.requestId, (error) => {
+        cleanup();
+        reject(error);
+      });
       worker.addEventListener('message', handleMessage);
-      worker.postMessage({ type: 'load' });
+      worker.postMessage(request);
     });
   }
 
+  /**
+   * Convert a recording to another container and/or codec.
+   * Options are validated up front; incompatible container/codec pairs reject without running FFmpeg.
+   */
+  async convert(
+    blob: Blob,
+    options: ConversionOptions = {},
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const resolved = resolveConversionOptions(options);
+    return this.runJob({ type: 'convert', blob, options: resolved }, onProgress, signal);
+  }
+
+  /**
+   * Export a recording as a looping animated image: GIF (two-pass palette), APNG or animated WebP
+   */
+  async exportAnimation(
+    blob: Blob,
+    options: AnimationOptions = {},
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const resolved = resolveAnimationOptions(options);
+    return this.runJob({ type: 'animate', blob, options: resolved }, onProgress, signal);
+  }
+
+  /**
+   * Export as an animated GIF; shorthand for exportAnimation(blob, { ...options, format: 'gif' })
+   */
+  async convertToGIF(
+    blob: Blob,
+    options: Omit<AnimationOptions, 'format'> = {},
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    return this.exportAnimation(blob, { ...options, format: 'gif' }, onProgress, signal);
+  }
+
+  /**
+   * Convert to MP4 with H.264 and AAC; shorthand for convert(blob, { container: 'mp4' })
+   */
   async convertToMP4(
     webmBlob: Blob,
-    onProgress?: (progress: ConversionProgress) => void
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    return this.convert(webmBlob, { container: 'mp4' }, onProgress, signal);
+  }
+
+  /**
+   * Keep only the part of a recording between range.start and range.end (milliseconds).
+   * The output is re-encoded with the conversion options; the container defaults to the input's.
+   */
+  async trim(
+    blob: Blob,
+    range: TimeRange,
+    options: ConversionOptions = {},
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    return this.edit([blob], trimSegments(range), options, onProgress, signal);
+  }
+
+  /**
+   * Remove one or more ranges (milliseconds) from a recording and join what is left
+   */
+  async cut(
+    blob: Blob,
+    ranges: TimeRange[],
+    options: ConversionOptions = {},
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    return this.edit([blob], cutSegments(ranges), options, onProgress, signal);
+  }
+
+  /**
+   * Join several recordings end to end. Later recordings are scaled to the first one's frame size,
+   * and audio is only kept when every recording has it.
+   */
+  async concat(
+    blobs: Blob[],
+    options: ConversionOptions = {},
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    return this.edit(blobs, concatSegments(blobs.length), options, onProgress, signal);
+  }
+
+  /**
+   * Convert several recordings with the same options. Jobs are spread over the worker pool,
+   * so set the workers option to convert more than one at a time. Rejects on the first failure;
+   * the other jobs keep running unless the signal is aborted.
+   */
+  async convertAll(
+    blobs: Blob[],
+    options: ConversionOptions = {},
+    onProgress?: (index: number, progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob[]> {
+    const resolved = resolveConversionOptions(options);
+    return Promise.all(blobs.map((blob, index) =>
+      this.runJob(
+        { type: 'convert', blob, options: resolved },
+        onProgress && (progress => onProgress(index, progress)),
+        signal
+      )
+    ));
+  }
+
+  private async edit(
+    blobs: Blob[],
+    segments: EditSegment[],
+    options: ConversionOptions,
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    const resolved = resolveConversionOptions({
+      ...options,
+      container: options.container ?? (blobs[0].type.startsWith('video/mp4') ? 'mp4' : 'webm')
+    });
+    return this.runJob({ type: 'edit', blobs, segments, options: resolved }, onProgress, signal);
+  }
+
+  /**
+   * Send a job to a worker and settle with its result. Every message carries the job ID,
+   * so progress from other jobs is never reported here.
+   */
+  private runJob(
+    payload: JobPayload,
+    onProgress?: (progress: ConversionProgress) => void,
+    signal?: AbortSignal
   ): Promise<Blob> {
     return new Promise((resolve, reject) => {
-      const worker = this.initWorker();
-
-      const handleMessage = (event: MessageEvent) => {
-        const { type, mp4Blob, time, message, error } = event.data;
-
-        if (type === 'complete') {
-          worker.removeEventListener('message', handleMessage);
-          resolve(mp4Blob);
-        } else if (type === 'error') {
-          worker.removeEventListener('message', handleMessage);
-          reject(new Error(error));
-        } else if (type === 'progress' && onProgress) {
-          onProgress({ time, message });
+      if (signal?.aborted) {
+        reject(signal.reason ?? new DOMException('Conversion aborted', 'AbortError'));
+        return;
+      }
+
+      const pooled = this.acquireWorker();
+      const { worker } = pooled;
+      const jobId = this.nextJobId++;
+
+      const handleMessage = (event: MessageEvent<WorkerResponse>) => {
+        const response = event.data;
+        if (!('jobId' in response) || response.jobId !== jobId) return;
+
+        if (response.type === 'complete') {
+          cleanup();
+          resolve(response.blob);
+        } else if (response.type === 'error') {
+          cleanup();
+          reject(new Error(response.error));
+        } else if (response.type === 'progress' && onProgress) {
+          const { percent, elapsed, eta, time, message } = response;
+          onProgress({ jobId, percent, elapsed, eta, time, message });
         }
       };
 
+      // Reject straight away; the worker stops the job and frees its files in the background
+      const handleAbort = () => {
+        cleanup();
+        worker.postMessage({ type: 'cancel', jobId });
+        reject(signal!.reason ?? new DOMException('Conversion aborted', 'AbortError'));
+      };
+
+      const cleanup = () => {
+        worker.removeEventListener('message', handleMessage);
+        signal?.removeEventListener('abort', handleAbort);
+        pooled.jobs.delete(jobId);
+        this.jobWorkers.delete(jobId);
+      };
+
+      pooled.jobs.set(jobId, (error) => {
+        cleanup();
+        reject(error);
+      });
+      this.jobWorkers.set(jobId, pooled);
       worker.addEventListener('message', handleMessage);
-      worker.postMessage({ type: 'convert', webmBlob });
+      signal?.addEventListener('abort', handleAbort, { once: true });
+      worker.postMessage({ ...payload, jobId } as JobRequest);
     });
   }
 
+  /**
+   * Stop all workers. Jobs still running or queued, and pending loads and status requests, reject with an error.
+   */
   terminate(): void {
-    if (this.worker) {
-      this.worker.terminate();
-      this.worker = null;
-    }
+    const error = new Error('The converter was terminated');
+    [...this.workers].forEach(pooled => this.failWorker(pooled, error));
+    this.jobWorkers.clear();
   }
 }
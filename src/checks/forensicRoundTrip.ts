@@ -0,0 +1,94 @@
+/**
+ * Scripted round trip of the forensic watermark: record a test scene with random IDs, convert it to
+ * H.264 with VideoConverter, read the mark back with extractWatermark() and check every field.
+ * Runs in the browser; the demo runs it from its self-test button and on load with ?check=forensic.
+ */
+import { CanvasRecorder } from '../CanvasRecorder';
+import { VideoConverter } from '../VideoConverter';
+import { extractWatermark } from '../forensics/ForensicWatermark';
+
+export interface RoundTripResult {
+  userId: string;
+  sessionId: string;
+  confidence: number;
+  convertedSize: number; // Bytes of the H.264 copy
+}
+
+const FRAME_COUNT = 90; // Three seconds at 30 fps
+
+/**
+ * Throws when the converted copy has no watermark or any field differs from what was embedded
+ */
+export async function runForensicRoundTrip(converter: VideoConverter, signal?: AbortSignal): Promise<RoundTripResult> {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1280;
+  canvas.height = 720;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get 2D context for the round trip scene');
+  }
+
+  // Full-length UUIDs, as a real deployment would use
+  const userId = crypto.randomUUID();
+  const sessionId = crypto.randomUUID();
+  const recorder = new CanvasRecorder({ canvas, fps: 30, forensicWatermark: { userId, sessionId } });
+
+  const startedAfter = Math.floor(Date.now() / 1000) * 1000;
+  const recording = await recorder.recordFrames({
+    frameCount: FRAME_COUNT,
+    renderFrame: frameIndex => drawScene(ctx, frameIndex / FRAME_COUNT)
+  });
+  const startedBefore = Date.now();
+  signal?.throwIfAborted();
+
+  // The lossiest profile, so the check is no kinder than a real conversion
+  const converted = await converter.convert(
+    recording.blob,
+    { container: 'mp4', videoCodec: 'h264', profile: 'web' },
+    undefined,
+    signal
+  );
+  URL.revokeObjectURL(recording.url);
+
+  // A decoy candidate, so a match has to come from the digest
+  const found = await extractWatermark(converted, {
+    userIds: [crypto.randomUUID(), userId],
+    sessionIds: [sessionId],
+    signal
+  });
+
+  if (!found) {
+    throw new Error('No forensic watermark found in the H.264 copy');
+  }
+  if (found.userId !== userId) {
+    throw new Error(`User ID did not survive conversion: digest ${found.userDigest} matches no candidate`);
+  }
+  if (found.sessionId !== sessionId) {
+    throw new Error(`Session ID did not survive conversion: digest ${found.sessionDigest} matches no candidate`);
+  }
+  if (found.timestamp < startedAfter || found.timestamp > startedBefore) {
+    throw new Error(`Recording time read back as ${new Date(found.timestamp).toISOString()}, outside the recording`);
+  }
+
+  return { userId, sessionId, confidence: found.confidence, convertedSize: converted.size };
+}
+
+// Moving gradients and edges, so the encoder has detail to spend bits on as in a real map recording
+function drawScene(ctx: CanvasRenderingContext2D, progress: number): void {
+  const { width, height } = ctx.canvas;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${progress * 360}, 60%, 35%)`);
+  gradient.addColorStop(1, `hsl(${progress * 360 + 120}, 60%, 65%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.lineWidth = 3;
+  for (let i = 0; i < 12; i++) {
+    const angle = progress * Math.PI * 2 + (i * Math.PI) / 6;
+    ctx.beginPath();
+    ctx.moveTo(width / 2, height / 2);
+    ctx.lineTo(width / 2 + Math.cos(angle) * width, height / 2 + Math.sin(angle) * width);
+    ctx.stroke();
+  }
+}
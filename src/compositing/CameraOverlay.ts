@@ -0,0 +1,208 @@
+/**
+ * Camera Overlay class that draws a webcam or other video picture-in-picture over the recording
+ */
+import type { WatermarkPosition } from '../CanvasRecorder';
+import { fitRect } from './OutputOptions';
+import { roundedRectPath } from './paths';
+
+export type CameraSourceInput = MediaStream | HTMLVideoElement | 'camera';
+
+export type CameraShape = 'rectangle' | 'rounded' | 'circle';
+
+export interface CameraOptions {
+  source: CameraSourceInput; // Stream, video element, or 'camera' to request the default webcam while recording
+  position?: WatermarkPosition; // Default: 'bottom-right'
+  width?: number; // Pixels; with only one of width/height the other follows the video aspect ratio. Default: 25% of the frame width
+  height?: number;
+  shape?: CameraShape; // Default: 'rectangle'; a circle uses the width as its diameter
+  cornerRadius?: number; // For 'rounded', default 16
+  border?: { width: number; color: string };
+  shadow?: { color?: string; blur?: number; offsetX?: number; offsetY?: number }; // Default color 'rgba(0, 0, 0, 0.5)', blur 16
+  mirror?: boolean; // Flip horizontally, as in a selfie preview; default true for 'camera'
+  opacity?: number; // 0-1, default 1
+}
+
+export class CameraOverlay {
+  private options: CameraOptions;
+  private video: HTMLVideoElement | null = null;
+  private ownedStream: MediaStream | null = null;
+
+  constructor(options: CameraOptions) {
+    if (!options.source) {
+      throw new Error('A camera source is required');
+    }
+    for (const value of [options.width, options.height]) {
+      if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+        throw new Error('Camera width and height must be positive numbers');
+      }
+    }
+    this.options = options;
+  }
+
+  /**
+   * Get the video playing; 'camera' asks for webcam access here
+   */
+  async start(): Promise<void> {
+    const { source } = this.options;
+
+    if (source instanceof HTMLVideoElement) {
+      this.video = source;
+      return;
+    }
+
+    let stream: MediaStream;
+    if (source === 'camera') {
+      stream = await navigator.mediaDevices.getUserMedia({ video: true });
+      this.ownedStream = stream;
+    } else {
+      if (source.getVideoTracks().length === 0) {
+        throw new Error('Camera MediaStream has no video tracks');
+      }
+      stream = source;
+    }
+
+    // Audio is recorded through the audio option, so this element stays silent
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.srcObject = stream;
+    this.video = video;
+
+    try {
+      await video.play();
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  stop(): void {
+    // A video element passed in belongs to the page and keeps playing
+    if (this.video && this.video !== this.options.source) {
+      this.video.pause();
+      this.video.srcObject = null;
+    }
+    this.video = null;
+
+    // Release a webcam we opened ourselves
+    this.ownedStream?.getTracks().forEach(track => track.stop());
+    this.ownedStream = null;
+  }
+
+  /**
+   * Draw the current video frame into a frame of the given size
+   */
+  draw(ctx: CanvasRenderingContext2D, frameWidth: number, frameHeight: number): void {
+    const video = this.video;
+    // HAVE_CURRENT_DATA: the webcam takes a moment to deliver its first frame
+    if (!video || video.readyState < 2 || video.videoWidth === 0 || video.videoHeight === 0) return;
+
+    const {
+      position = 'bottom-right',
+      shape = 'rectangle',
+      cornerRadius = 16,
+      border,
+      shadow,
+      mirror = this.options.source === 'camera',
+      opacity = 1
+    } = this.options;
+
+    const { width, height } = this.getSize(video, frameWidth);
+
+    // Calculate position; the padding leaves room for the border
+    const padding = 10 + (border?.width ?? 0);
+    let x: number;
+    let y: number;
+
+    if (typeof position === 'object' && 'x' in position && 'y' in position) {
+      // Pixel positioning
+      x = position.x;
+      y = position.y;
+    } else {
+      // Corner positioning
+      switch (position) {
+        case 'top-left':
+          x = padding;
+          y = padding;
+          break;
+        case 'top-right':
+          x = frameWidth - width - padding;
+          y = padding;
+          break;
+        case 'bottom-left':
+          x = padding;
+          y = frameHeight - height - padding;
+          break;
+        case 'bottom-right':
+        default:
+          x = frameWidth - width - padding;
+          y = frameHeight - height - padding;
+          break;
+      }
+    }
+
+    const radius = shape === 'circle' ? width / 2 : shape === 'rounded' ? cornerRadius : 0;
+    const path = roundedRectPath(x, y, width, height, radius);
+
+    ctx.save();
+    ctx.globalAlpha = Math.min(Math.max(opacity, 0), 1);
+
+    // The shadow is cast by a filled copy of the shape, so the video itself is drawn without one
+    if (shadow) {
+      ctx.save();
+      ctx.shadowColor = shadow.color ?? 'rgba(0, 0, 0, 0.5)';
+      ctx.shadowBlur = shadow.blur ?? 16;
+      ctx.shadowOffsetX = shadow.offsetX ?? 0;
+      ctx.shadowOffsetY = shadow.offsetY ?? 0;
+      ctx.fillStyle = '#000000';
+      ctx.fill(path);
+      ctx.restore();
+    }
+
+    // Fill the shape with the video, cropped around its center
+    ctx.save();
+    ctx.clip(path);
+    if (mirror) {
+      ctx.translate(2 * x + width, 0);
+      ctx.scale(-1, 1);
+    }
+    const rect = fitRect(video.videoWidth, video.videoHeight, width, height, 'cover');
+    ctx.drawImage(video, rect.sx, rect.sy, rect.sw, rect.sh, x, y, width, height);
+    ctx.restore();
+
+    // Stroked outside the edge so the border doesn't cover the video
+    if (border && border.width > 0) {
+      const outline = roundedRectPath(
+        x - border.width / 2,
+        y - border.width / 2,
+        width + border.width,
+        height + border.width,
+        radius > 0 ? radius + border.width / 2 : 0
+      );
+      ctx.lineWidth = border.width;
+      ctx.strokeStyle = border.color;
+      ctx.stroke(outline);
+    }
+
+    ctx.restore();
+  }
+
+  // A missing width or height follows the video's aspect ratio; circles are as tall as they are wide
+  private getSize(video: HTMLVideoElement, frameWidth: number): { width: number; height: number } {
+    const { width, height, shape } = this.options;
+    const aspectRatio = video.videoHeight / video.videoWidth;
+
+    if (shape === 'circle') {
+      const diameter = width ?? height ?? Math.round(frameWidth * 0.25);
+      return { width: diameter, height: diameter };
+    }
+    if (width !== undefined && height !== undefined) {
+      return { width, height };
+    }
+    if (height !== undefined) {
+      return { width: height / aspectRatio, height };
+    }
+    const resolvedWidth = width ?? Math.round(frameWidth * 0.25);
+    return { width: resolvedWidth, height: resolvedWidth * aspectRatio };
+  }
+}
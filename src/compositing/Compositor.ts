@@ -0,0 +1,129 @@
+/**
+ * Compositor class that draws several source canvases into one frame, for recording a whole dashboard
+ */
+import { CanvasPlacement, FitMode, fitPlacement, fitRect } from './OutputOptions';
+
+export interface CompositeSource {
+  canvas: HTMLCanvasElement;
+  x: number; // Layout rectangle in composite pixels
+  y: number;
+  width: number;
+  height: number;
+  zIndex?: number; // Higher is drawn on top; ties keep their order in the list. Default 0
+  opacity?: number; // 0-1, applies to the background too; default 1
+  background?: string; // Fills the layout rectangle behind the canvas, e.g. for transparent or letterboxed canvases
+  fit?: FitMode; // How the canvas is fitted into its rectangle, default 'contain'
+}
+
+export interface CompositeOptions {
+  width: number; // Composite frame size in pixels
+  height: number;
+  background?: string; // Behind all sources, default '#000000'
+  sources: CompositeSource[];
+}
+
+export class Compositor {
+  readonly canvas: HTMLCanvasElement; // Rendered by render(); the recorder's source canvas
+  private ctx: CanvasRenderingContext2D | null;
+  private background: string;
+  private layers: CompositeSource[] = [];
+
+  constructor(options: CompositeOptions) {
+    for (const value of [options.width, options.height]) {
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new Error('Composite width and height must be positive integers');
+      }
+    }
+
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = options.width;
+    this.canvas.height = options.height;
+    this.ctx = this.canvas.getContext('2d', { alpha: false });
+    this.background = options.background ?? '#000000';
+    this.setSources(options.sources);
+  }
+
+  /**
+   * Replace the sources and their layout; takes effect from the next frame
+   */
+  setSources(sources: CompositeSource[]): void {
+    for (const source of sources) {
+      if (!source.canvas) {
+        throw new Error('Every composite source needs a canvas');
+      }
+      for (const value of [source.x, source.y, source.width, source.height]) {
+        if (!Number.isFinite(value)) {
+          throw new Error('Composite sources must have finite x, y, width and height');
+        }
+      }
+    }
+
+    // Array.prototype.sort is stable, so equal z-indexes keep the list order
+    this.layers = [...sources].sort((a, b) => (a.zIndex ?? 0) - (b.zIndex ?? 0));
+  }
+
+  // The bottom layer's canvas, e.g. the map in a dashboard
+  get baseCanvas(): HTMLCanvasElement | null {
+    return this.layers[0]?.canvas ?? null;
+  }
+
+  /**
+   * Where a source canvas's pixels land in the composite frame; the topmost layer wins if a canvas is used twice
+   */
+  placementOf(canvas: HTMLCanvasElement): CanvasPlacement | null {
+    for (let i = this.layers.length - 1; i >= 0; i--) {
+      const layer = this.layers[i];
+      if (layer.canvas !== canvas) continue;
+
+      const rect = fitRect(canvas.width, canvas.height, layer.width, layer.height, layer.fit ?? 'contain');
+      return fitPlacement(rect, layer.x, layer.y);
+    }
+    return null;
+  }
+
+  /**
+   * Draw the current frame into the compositor's own canvas
+   */
+  render(): HTMLCanvasElement {
+    if (this.ctx) {
+      this.draw(this.ctx);
+    }
+    return this.canvas;
+  }
+
+  /**
+   * Draw the current frame into a context of the composite size, skipping the compositor's own canvas
+   */
+  draw(ctx: CanvasRenderingContext2D): void {
+    ctx.fillStyle = this.background;
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+
+    for (const layer of this.layers) {
+      const opacity = Math.min(Math.max(layer.opacity ?? 1, 0), 1);
+      if (opacity === 0 || layer.width <= 0 || layer.height <= 0) continue;
+
+      ctx.save();
+      ctx.globalAlpha = opacity;
+
+      if (layer.background) {
+        ctx.fillStyle = layer.background;
+        ctx.fillRect(layer.x, layer.y, layer.width, layer.height);
+      }
+
+      // A canvas that hasn't been sized yet can't be drawn
+      const { canvas } = layer;
+      if (canvas.width > 0 && canvas.height > 0) {
+        const rect = fitRect(canvas.width, canvas.height, layer.width, layer.height, layer.fit ?? 'contain');
+        ctx.drawImage(
+          canvas,
+          rect.sx, rect.sy, rect.sw, rect.sh,
+          layer.x + rect.dx, layer.y + rect.dy, rect.dw, rect.dh
+        );
+      }
+
+      ctx.restore();
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Region-of-interest cropping of the source canvas, fixed or keyframed for animated pans and zooms
+ */
+import { EASINGS, Easing } from './easing';
+
+// A rectangle of the source canvas, in canvas pixels
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type CropEasing = Easing;
+
+export interface CropKeyframe extends CropRect {
+  time: number; // Milliseconds of recording time (pauses excluded)
+  easing?: CropEasing; // How the move into this keyframe accelerates, default 'ease-in-out'
+}
+
+// A fixed rectangle, or keyframes interpolated over the recording
+export type CropOptions = CropRect | { keyframes: CropKeyframe[] };
+
+function validateRect(rect: CropRect): void {
+  for (const value of [rect.x, rect.y, rect.width, rect.height]) {
+    if (!Number.isFinite(value)) {
+      throw new Error('Crop rectangles must have finite x, y, width and height');
+    }
+  }
+  if (rect.width <= 0 || rect.height <= 0) {
+    throw new Error('Crop width and height must be positive');
+  }
+}
+
+/**
+ * Validate the crop and turn it into keyframes sorted by time
+ */
+export function resolveCrop(crop: CropOptions): CropKeyframe[] {
+  if (!('keyframes' in crop)) {
+    validateRect(crop);
+    return [{ x: crop.x, y: crop.y, width: crop.width, height: crop.height, time: 0 }];
+  }
+
+  if (crop.keyframes.length === 0) {
+    throw new Error('At least one crop keyframe is required');
+  }
+  for (const keyframe of crop.keyframes) {
+    validateRect(keyframe);
+    if (!Number.isFinite(keyframe.time) || keyframe.time < 0) {
+      throw new Error('Crop keyframe times must be non-negative numbers of milliseconds');
+    }
+    if (keyframe.easing && !EASINGS[keyframe.easing]) {
+      throw new Error(`Unknown crop easing: ${keyframe.easing}`);
+    }
+  }
+  return [...crop.keyframes].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * The crop rectangle at a point in time, kept inside a source of the given size.
+ * A rectangle that runs off an edge is moved back in rather than squashed, so pans keep their zoom.
+ */
+export function cropAt(keyframes: CropKeyframe[], time: number, sourceWidth: number, sourceHeight: number): CropRect {
+  let rect: CropRect = keyframes[keyframes.length - 1];
+
+  const next = keyframes.findIndex(keyframe => keyframe.time > time);
+  if (next === 0) {
+    rect = keyframes[0];
+  } else if (next > 0) {
+    const from = keyframes[next - 1];
+    const to = keyframes[next];
+    const progress = EASINGS[to.easing ?? 'ease-in-out']((time - from.time) / (to.time - from.time));
+    const lerp = (a: number, b: number) => a + (b - a) * progress;
+    rect = {
+      x: lerp(from.x, to.x),
+      y: lerp(from.y, to.y),
+      width: lerp(from.width, to.width),
+      height: lerp(from.height, to.height)
+    };
+  }
+
+  const width = Math.min(rect.width, sourceWidth);
+  const height = Math.min(rect.height, sourceHeight);
+  return {
+    x: Math.min(Math.max(0, rect.x), sourceWidth - width),
+    y: Math.min(Math.max(0, rect.y), sourceHeight - height),
+    width,
+    height
+  };
+}
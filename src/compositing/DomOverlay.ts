@@ -0,0 +1,241 @@
+/**
+ * DOM overlay capture: rasterizes HTML elements (markers, popups, legends) through SVG foreignObject
+ * and draws them into the recording at their on-screen positions
+ */
+import { CanvasPlacement } from './OutputOptions';
+
+export interface DomOverlaySource {
+  element: HTMLElement | string; // An element, or a CSS selector matched every frame, for markers that come and go
+  refreshRate?: number; // Re-rasterizations per second, 0 for once; the position is tracked every frame. Default 2
+  relativeTo?: HTMLCanvasElement; // The canvas the element sits over; default the recorded (or bottom composite) canvas
+}
+
+export type DomOverlayOptions = HTMLElement | string | DomOverlaySource;
+
+interface Raster {
+  image: HTMLImageElement | null; // Last finished raster
+  renderedAt: number; // Recording time of the last raster start, -Infinity before the first
+  pending: Promise<void> | null;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const RETRY_INTERVAL = 500; // Milliseconds between attempts while an element has no raster yet (failed or zero-sized)
+
+export class DomOverlayRenderer {
+  private sources: DomOverlaySource[];
+  private rasters = new WeakMap<HTMLElement, Raster>();
+  private disabled = false; // Set when the browser taints canvases drawn with foreignObject images
+
+  constructor(overlays: DomOverlayOptions[]) {
+    this.sources = overlays.map(overlay =>
+      typeof overlay === 'object' && 'element' in overlay ? overlay : { element: overlay }
+    );
+    for (const source of this.sources) {
+      if (source.refreshRate !== undefined && (!Number.isFinite(source.refreshRate) || source.refreshRate < 0)) {
+        throw new Error('Overlay refreshRate must be a non-negative number');
+      }
+    }
+  }
+
+  /**
+   * Start rasterizing every element whose refresh is due. The promise settles when they are done;
+   * realtime recordings draw the previous raster meanwhile, step recordings wait for it.
+   */
+  refresh(timeMs: number): Promise<void> {
+    if (this.disabled) return Promise.resolve();
+
+    const pending: Promise<void>[] = [];
+    for (const source of this.sources) {
+      const interval = source.refreshRate === 0 ? Infinity : 1000 / (source.refreshRate ?? 2);
+
+      for (const element of this.resolveElements(source)) {
+        let raster = this.rasters.get(element);
+        if (!raster) {
+          raster = { image: null, renderedAt: -Infinity, pending: null };
+          this.rasters.set(element, raster);
+        }
+
+        // Elements never tried go at once; ones without a raster yet are retried, even with refreshRate 0
+        const due = raster.image === null ? Math.min(interval, RETRY_INTERVAL) : interval;
+        if (raster.pending) {
+          pending.push(raster.pending);
+        } else if (timeMs - raster.renderedAt >= due || timeMs < raster.renderedAt) {
+          raster.renderedAt = timeMs;
+          raster.pending = this.rasterize(element, raster);
+          pending.push(raster.pending);
+        }
+      }
+    }
+    return Promise.all(pending).then(() => undefined);
+  }
+
+  /**
+   * Draw the latest raster of every element. placementOf() says where a canvas's pixels are in the frame,
+   * or null when that canvas isn't in it.
+   */
+  draw(
+    ctx: CanvasRenderingContext2D,
+    defaultCanvas: HTMLCanvasElement | null,
+    placementOf: (canvas: HTMLCanvasElement) => CanvasPlacement | null
+  ): void {
+    if (this.disabled) return;
+
+    for (const source of this.sources) {
+      const canvas = source.relativeTo ?? defaultCanvas;
+      const placement = canvas && placementOf(canvas);
+      if (!canvas || !placement) continue;
+
+      // The canvas's CSS box maps onto its pixel size, which differs on high-DPI screens
+      const canvasBox = canvas.getBoundingClientRect();
+      if (canvasBox.width === 0 || canvasBox.height === 0) continue;
+      const pixelsX = canvas.width / canvasBox.width;
+      const pixelsY = canvas.height / canvasBox.height;
+
+      for (const element of this.resolveElements(source)) {
+        const image = this.rasters.get(element)?.image;
+        const box = element.getBoundingClientRect();
+        if (!image || box.width === 0 || box.height === 0) continue;
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(placement.clip.x, placement.clip.y, placement.clip.width, placement.clip.height);
+        ctx.clip();
+        ctx.drawImage(
+          image,
+          (box.left - canvasBox.left) * pixelsX * placement.scaleX + placement.offsetX,
+          (box.top - canvasBox.top) * pixelsY * placement.scaleY + placement.offsetY,
+          box.width * pixelsX * placement.scaleX,
+          box.height * pixelsY * placement.scaleY
+        );
+        ctx.restore();
+      }
+    }
+  }
+
+  private resolveElements(source: DomOverlaySource): HTMLElement[] {
+    if (typeof source.element !== 'string') {
+      return source.element.isConnected ? [source.element] : [];
+    }
+    return Array.from(document.querySelectorAll(source.element)).filter(
+      (element): element is HTMLElement => element instanceof HTMLElement
+    );
+  }
+
+  private async rasterize(element: HTMLElement, raster: Raster): Promise<void> {
+    try {
+      // Layout size, without transforms; the on-screen box (with them) is applied when drawing
+      const width = element.offsetWidth;
+      const height = element.offsetHeight;
+      if (width === 0 || height === 0) return;
+
+      const scale = window.devicePixelRatio || 1;
+      const svg = document.createElementNS(SVG_NS, 'svg');
+      svg.setAttribute('width', String(Math.ceil(width * scale)));
+      svg.setAttribute('height', String(Math.ceil(height * scale)));
+      svg.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+      const foreignObject = document.createElementNS(SVG_NS, 'foreignObject');
+      foreignObject.setAttribute('width', '100%');
+      foreignObject.setAttribute('height', '100%');
+      foreignObject.appendChild(cloneWithStyles(element, true));
+      svg.appendChild(foreignObject);
+
+      const image = new Image();
+      image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(new XMLSerializer().serializeToString(svg));
+      await image.decode();
+
+      if (this.isTainting(image)) {
+        this.disabled = true;
+        console.warn('This browser taints canvases drawn with foreignObject images, so DOM overlays are not recorded');
+        return;
+      }
+      raster.image = image;
+    } catch (error) {
+      console.warn('Failed to rasterize DOM overlay:', error);
+    } finally {
+      raster.pending = null;
+    }
+  }
+
+  // A tainted recording canvas stops the encoder, so check on a scratch canvas first
+  private isTainting(image: HTMLImageElement): boolean {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return false;
+
+    ctx.drawImage(image, 0, 0, 1, 1);
+    try {
+      ctx.getImageData(0, 0, 1, 1);
+      return false;
+    } catch {
+      return true;
+    }
+  }
+}
+
+/**
+ * Deep-clone an element with its computed styles inlined, since the SVG image can't see the page's stylesheets.
+ * Canvases become images of their content and images are inlined where CORS allows, as the SVG can't load URLs.
+ */
+function cloneWithStyles(element: Element, isRoot: boolean): Node {
+  if (element instanceof HTMLCanvasElement) {
+    const image = document.createElement('img');
+    try {
+      image.src = element.toDataURL();
+    } catch {
+      // A tainted canvas can't be read; it stays blank
+    }
+    copyStyles(element, image, isRoot);
+    return image;
+  }
+
+  const clone = element.cloneNode(false) as Element;
+  if (element instanceof HTMLImageElement && clone instanceof HTMLImageElement) {
+    const dataURL = imageToDataURL(element);
+    if (dataURL) clone.src = dataURL;
+    clone.removeAttribute('srcset');
+  }
+  copyStyles(element, clone, isRoot);
+
+  for (const child of Array.from(element.childNodes)) {
+    if (child instanceof Element) {
+      clone.appendChild(cloneWithStyles(child, false));
+    } else if (child.nodeType === Node.TEXT_NODE) {
+      clone.appendChild(child.cloneNode());
+    }
+  }
+  return clone;
+}
+
+function copyStyles(source: Element, target: Element, isRoot: boolean): void {
+  if (!(target instanceof HTMLElement || target instanceof SVGElement)) return;
+
+  const computed = window.getComputedStyle(source);
+  let cssText = '';
+  for (let i = 0; i < computed.length; i++) {
+    const name = computed[i];
+    cssText += `${name}:${computed.getPropertyValue(name)};`;
+  }
+
+  // The root is drawn at its on-screen box, so it's laid out at the SVG's origin without its page position
+  if (isRoot) {
+    cssText += 'position:static;margin:0;transform:none;left:auto;top:auto;right:auto;bottom:auto;';
+  }
+  target.setAttribute('style', cssText);
+}
+
+function imageToDataURL(image: HTMLImageElement): string | null {
+  if (!image.complete || image.naturalWidth === 0 || image.src.startsWith('data:')) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  try {
+    canvas.getContext('2d')?.drawImage(image, 0, 0);
+    return canvas.toDataURL();
+  } catch {
+    // Cross-origin image without CORS headers
+    return null;
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Output size of the recording, independent of the source canvas, and how the source is fitted into it
+ */
+
+export type OutputPreset = '720p' | '1080p' | '4k' | 'square' | 'vertical';
+
+// 'contain': whole source visible, letterboxed; 'cover': frame filled, source cropped; 'stretch': aspect ratio ignored
+export type FitMode = 'contain' | 'cover' | 'stretch';
+
+export interface OutputOptions {
+  preset?: OutputPreset; // Named size; width/height below override it
+  width?: number; // Pixels; with only one of width/height the other follows the source aspect ratio
+  height?: number;
+  fit?: FitMode; // Default: 'contain'
+  background?: string; // Letterbox color, default '#000000'
+  evenDimensions?: boolean; // Round the size down to even numbers, as most video encoders require; default true
+}
+
+export const OUTPUT_PRESETS: Record<OutputPreset, { width: number; height: number }> = {
+  '720p': { width: 1280, height: 720 },
+  '1080p': { width: 1920, height: 1080 },
+  '4k': { width: 3840, height: 2160 },
+  square: { width: 1080, height: 1080 },
+  vertical: { width: 1080, height: 1920 } // 9:16, for stories and shorts
+};
+
+// Source and destination rectangles for drawImage()
+export interface FitRect {
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  dx: number;
+  dy: number;
+  dw: number;
+  dh: number;
+}
+
+/**
+ * Work out the output frame size for a source canvas of the given size
+ */
+export function resolveOutputSize(
+  options: OutputOptions,
+  sourceWidth: number,
+  sourceHeight: number
+): { width: number; height: number } {
+  const preset = options.preset ? OUTPUT_PRESETS[options.preset] : undefined;
+  if (options.preset && !preset) {
+    throw new Error(`Unknown output preset: ${options.preset}`);
+  }
+
+  let width = options.width ?? preset?.width;
+  let height = options.height ?? preset?.height;
+
+  for (const value of [width, height]) {
+    if (value !== undefined && (!Number.isFinite(value) || value <= 0)) {
+      throw new Error('Output width and height must be positive numbers');
+    }
+  }
+
+  if (width === undefined && height === undefined) {
+    width = sourceWidth;
+    height = sourceHeight;
+  } else if (height === undefined) {
+    height = (width! * sourceHeight) / sourceWidth;
+  } else if (width === undefined) {
+    width = (height * sourceWidth) / sourceHeight;
+  }
+
+  width = Math.round(width!);
+  height = Math.round(height);
+
+  if (options.evenDimensions !== false) {
+    width = Math.max(2, width - (width % 2));
+    height = Math.max(2, height - (height % 2));
+  }
+
+  return { width, height };
+}
+
+/**
+ * Place a source of one size into a frame of another
+ */
+export function fitRect(
+  sourceWidth: number,
+  sourceHeight: number,
+  targetWidth: number,
+  targetHeight: number,
+  fit: FitMode
+): FitRect {
+  const full = { sx: 0, sy: 0, sw: sourceWidth, sh: sourceHeight, dx: 0, dy: 0, dw: targetWidth, dh: targetHeight };
+  if (fit === 'stretch' || sourceWidth <= 0 || sourceHeight <= 0) {
+    return full;
+  }
+
+  const scaleX = targetWidth / sourceWidth;
+  const scaleY = targetHeight / sourceHeight;
+
+  if (fit === 'cover') {
+    // Crop the source around its center to the frame's aspect ratio
+    const scale = Math.max(scaleX, scaleY);
+    const sw = targetWidth / scale;
+    const sh = targetHeight / scale;
+    return { ...full, sx: (sourceWidth - sw) / 2, sy: (sourceHeight - sh) / 2, sw, sh };
+  }
+
+  // Contain: scale the whole source down (or up) and center it
+  const scale = Math.min(scaleX, scaleY);
+  const dw = sourceWidth * scale;
+  const dh = sourceHeight * scale;
+  return { ...full, dx: (targetWidth - dw) / 2, dy: (targetHeight - dh) / 2, dw, dh };
+}
+
+// Where the pixels of a canvas end up in the frame: frame = pixel * scale + offset, cut off outside clip
+export interface CanvasPlacement {
+  scaleX: number;
+  scaleY: number;
+  offsetX: number;
+  offsetY: number;
+  clip: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * The placement of a canvas drawn with a fitRect() result, at an origin in the frame
+ */
+export function fitPlacement(rect: FitRect, originX = 0, originY = 0): CanvasPlacement {
+  const scaleX = rect.sw > 0 ? rect.dw / rect.sw : 1;
+  const scaleY = rect.sh > 0 ? rect.dh / rect.sh : 1;
+  return {
+    scaleX,
+    scaleY,
+    offsetX: originX + rect.dx - rect.sx * scaleX,
+    offsetY: originY + rect.dy - rect.sy * scaleY,
+    clip: { x: originX + rect.dx, y: originY + rect.dy, width: rect.dw, height: rect.dh }
+  };
+}
+
+/**
+ * A placement within a frame that is itself drawn into another frame with the outer placement
+ */
+export function composePlacement(inner: CanvasPlacement, outer: CanvasPlacement): CanvasPlacement {
+  const left = Math.max(inner.clip.x * outer.scaleX + outer.offsetX, outer.clip.x);
+  const top = Math.max(inner.clip.y * outer.scaleY + outer.offsetY, outer.clip.y);
+  const right = Math.min((inner.clip.x + inner.clip.width) * outer.scaleX + outer.offsetX, outer.clip.x + outer.clip.width);
+  const bottom = Math.min((inner.clip.y + inner.clip.height) * outer.scaleY + outer.offsetY, outer.clip.y + outer.clip.height);
+
+  return {
+    scaleX: inner.scaleX * outer.scaleX,
+    scaleY: inner.scaleY * outer.scaleY,
+    offsetX: inner.offsetX * outer.scaleX + outer.offsetX,
+    offsetY: inner.offsetY * outer.scaleY + outer.offsetY,
+    clip: { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) }
+  };
+}
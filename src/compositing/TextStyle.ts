@@ -0,0 +1,219 @@
+/**
+ * Styled, multi-line watermark text: fonts, outline, shadow, background box, wrapping and ellipsis
+ */
+import { roundedRectPath } from './paths';
+
+export interface TextStyle {
+  fontFamily?: string; // CSS font family, default 'Arial'
+  fontWeight?: string | number; // e.g. 'bold' or 600, default 'normal'
+  fontStyle?: 'normal' | 'italic';
+  lineHeight?: number; // Multiple of the font size, default 1.2
+  maxWidth?: number; // Pixels; longer lines wrap or get an ellipsis. Default: the available width when overflow is set
+  overflow?: 'wrap' | 'ellipsis'; // Default: 'wrap'
+  align?: 'left' | 'center' | 'right'; // Alignment of lines within the block; default follows the position
+  stroke?: { color: string; width: number }; // Outline, keeps light text readable over bright imagery
+  shadow?: { color?: string; blur?: number; offsetX?: number; offsetY?: number }; // Default color 'rgba(0, 0, 0, 0.7)', blur 4
+  background?: { color: string; padding?: number; radius?: number }; // Box behind the text; padding default 6
+}
+
+// A web font to load before the first frame, e.g. one not declared with @font-face in the page's CSS
+export interface WebFont {
+  family: string;
+  url: string;
+  descriptors?: FontFaceDescriptors; // weight, style, ...
+}
+
+export interface TextBlock {
+  lines: string[];
+  lineWidths: number[];
+  width: number;
+  lineHeight: number; // Pixels between baselines
+  ascent: number;
+  descent: number;
+}
+
+const loadedFonts = new Map<string, Promise<void>>();
+
+export function fontString(fontSize: number, style: TextStyle = {}): string {
+  return `${style.fontStyle ?? 'normal'} ${style.fontWeight ?? 'normal'} ${fontSize}px ${style.fontFamily ?? 'Arial'}`;
+}
+
+/**
+ * Load web fonts and make sure the given CSS fonts are ready, so the first frame isn't drawn in a fallback font.
+ * Fonts that fail to load are skipped with a warning.
+ */
+export async function loadFonts(webFonts: WebFont[], fonts: string[]): Promise<void> {
+  const loading = webFonts.map((font) => {
+    const key = `${font.family}|${font.url}|${JSON.stringify(font.descriptors ?? {})}`;
+    let promise = loadedFonts.get(key);
+    if (!promise) {
+      const face = new FontFace(font.family, `url(${JSON.stringify(font.url)})`, font.descriptors);
+      promise = face.load().then(
+        (loaded) => {
+          document.fonts.add(loaded);
+        },
+        (error) => {
+          loadedFonts.delete(key);
+          console.warn('Failed to load watermark font:', font.url, error);
+        }
+      );
+      loadedFonts.set(key, promise);
+    }
+    return promise;
+  });
+  await Promise.all(loading);
+
+  await Promise.all(fonts.map(font => document.fonts.load(font).catch((error) => {
+    console.warn('Failed to load watermark font:', font, error);
+  })));
+}
+
+/**
+ * Split text into lines at newlines, then wrap or truncate them to the maximum width. Sets ctx.font.
+ */
+export function layoutText(
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  fontSize: number,
+  style: TextStyle = {},
+  availableWidth?: number
+): TextBlock {
+  ctx.font = fontString(fontSize, style);
+
+  const maxWidth = style.maxWidth ?? (style.overflow ? availableWidth : undefined);
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    if (maxWidth === undefined || ctx.measureText(paragraph).width <= maxWidth) {
+      lines.push(paragraph);
+    } else if (style.overflow === 'ellipsis') {
+      lines.push(truncate(ctx, paragraph, maxWidth));
+    } else {
+      lines.push(...wrap(ctx, paragraph, maxWidth));
+    }
+  }
+
+  const lineWidths = lines.map(line => ctx.measureText(line).width);
+  const metrics = ctx.measureText('Mg');
+  return {
+    lines,
+    lineWidths,
+    width: Math.max(0, ...lineWidths),
+    lineHeight: fontSize * (style.lineHeight ?? 1.2),
+    ascent: metrics.fontBoundingBoxAscent ?? fontSize * 0.8,
+    descent: metrics.fontBoundingBoxDescent ?? fontSize * 0.2
+  };
+}
+
+/**
+ * Draw a laid-out block whose left edge is at x and whose first baseline is at y
+ */
+export function drawTextBlock(
+  ctx: CanvasRenderingContext2D,
+  block: TextBlock,
+  x: number,
+  y: number,
+  color: string,
+  align: 'left' | 'center' | 'right',
+  style: TextStyle = {}
+): void {
+  ctx.save();
+  ctx.textBaseline = 'alphabetic';
+  ctx.textAlign = 'left';
+
+  const { background, stroke, shadow } = style;
+  if (background) {
+    const padding = background.padding ?? 6;
+    const top = y - block.ascent - padding;
+    const bottom = y + (block.lines.length - 1) * block.lineHeight + block.descent + padding;
+    ctx.fillStyle = background.color;
+    ctx.fill(roundedRectPath(x - padding, top, block.width + 2 * padding, bottom - top, background.radius ?? 0));
+  }
+
+  const outlined = !!stroke && stroke.width > 0;
+  if (outlined) {
+    ctx.lineWidth = stroke.width;
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = stroke.color;
+  }
+  ctx.fillStyle = color;
+
+  block.lines.forEach((line, index) => {
+    const lineX = align === 'left'
+      ? x
+      : align === 'right'
+        ? x + block.width - block.lineWidths[index]
+        : x + (block.width - block.lineWidths[index]) / 2;
+    const lineY = y + index * block.lineHeight;
+
+    // With an outline, only the outline casts the shadow, so it isn't doubled by the fill on top
+    setShadow(ctx, shadow);
+    if (outlined) {
+      ctx.strokeText(line, lineX, lineY);
+      setShadow(ctx);
+    }
+    ctx.fillText(line, lineX, lineY);
+  });
+
+  ctx.restore();
+}
+
+function setShadow(ctx: CanvasRenderingContext2D, shadow?: TextStyle['shadow']): void {
+  ctx.shadowColor = shadow ? shadow.color ?? 'rgba(0, 0, 0, 0.7)' : 'transparent';
+  ctx.shadowBlur = shadow?.blur ?? 4;
+  ctx.shadowOffsetX = shadow?.offsetX ?? 0;
+  ctx.shadowOffsetY = shadow?.offsetY ?? 0;
+}
+
+// Height of a block from the top of its first line to the bottom of its last
+export function blockHeight(block: TextBlock): number {
+  return block.ascent + (block.lines.length - 1) * block.lineHeight + block.descent;
+}
+
+function wrap(ctx: CanvasRenderingContext2D, paragraph: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of paragraph.split(/(?<=\s)/)) {
+    const candidate = line + word;
+    if (!line || ctx.measureText(candidate.trimEnd()).width <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line.trimEnd());
+    line = word;
+  }
+  lines.push(line.trimEnd());
+
+  // Words longer than a whole line are broken between characters
+  return lines.flatMap(text => (ctx.measureText(text).width <= maxWidth ? [text] : breakWord(ctx, text, maxWidth)));
+}
+
+function breakWord(ctx: CanvasRenderingContext2D, word: string, maxWidth: number): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && ctx.measureText(piece + char).width > maxWidth) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += char;
+  }
+  pieces.push(piece);
+  return pieces;
+}
+
+function truncate(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  const chars = Array.from(text);
+  // Binary search for the longest prefix that fits with the ellipsis
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (ctx.measureText(chars.slice(0, mid).join('').trimEnd() + '…').width <= maxWidth) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return chars.slice(0, low).join('').trimEnd() + '…';
+}
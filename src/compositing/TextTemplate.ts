@@ -0,0 +1,119 @@
+/**
+ * Watermark text templates: placeholders like {date:YYYY-MM-DD HH:mm:ss}, {elapsed} and {frame},
+ * plus custom {key} placeholders filled from a data function, resolved every frame
+ */
+
+export interface TemplateContext {
+  timestamp: number; // Wall-clock time of the frame, ms since the epoch
+  elapsed: number; // Recording time of the frame in ms, pauses excluded
+  frame: number; // Frame number from 0, at the recording's frame rate
+}
+
+export type TemplateValue = string | number | boolean | null | undefined;
+
+// Called once per frame; its values fill the {key} placeholders
+export type TemplateDataProvider = (context: TemplateContext) => Record<string, TemplateValue>;
+
+type Segment = string | { key: string; format?: string; placeholder: string };
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD HH:mm:ss';
+const DEFAULT_ELAPSED_FORMAT = 'HH:mm:ss';
+const compiled = new Map<string, Segment[]>();
+
+/**
+ * Fill in a template. Unknown placeholders are left as written, and {{ and }} give literal braces.
+ */
+export function renderTemplate(template: string, context: TemplateContext, data: Record<string, TemplateValue> = {}): string {
+  // Fixed text is by far the most common case
+  if (!template.includes('{') && !template.includes('}')) return template;
+
+  let text = '';
+  for (const segment of compileTemplate(template)) {
+    if (typeof segment === 'string') {
+      text += segment;
+      continue;
+    }
+
+    const { key, format, placeholder } = segment;
+    if (key in data) {
+      text += data[key] ?? '';
+    } else if (key === 'date') {
+      text += formatDate(context.timestamp, format ?? DEFAULT_DATE_FORMAT, false);
+    } else if (key === 'utc') {
+      text += formatDate(context.timestamp, format ?? DEFAULT_DATE_FORMAT, true);
+    } else if (key === 'elapsed') {
+      text += formatDuration(context.elapsed, format ?? DEFAULT_ELAPSED_FORMAT);
+    } else if (key === 'frame') {
+      text += String(context.frame);
+    } else {
+      text += placeholder;
+    }
+  }
+  return text;
+}
+
+function compileTemplate(template: string): Segment[] {
+  let segments = compiled.get(template);
+  if (segments) return segments;
+
+  segments = [];
+  let literal = '';
+  const pattern = /\{\{|\}\}|\{([\w.-]+)(?::([^}]*))?\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(template))) {
+    literal += template.slice(last, match.index);
+    last = pattern.lastIndex;
+
+    if (match[0] === '{{' || match[0] === '}}') {
+      literal += match[0][0];
+      continue;
+    }
+    if (literal) {
+      segments.push(literal);
+      literal = '';
+    }
+    segments.push({ key: match[1], format: match[2], placeholder: match[0] });
+  }
+  literal += template.slice(last);
+  if (literal) {
+    segments.push(literal);
+  }
+
+  compiled.set(template, segments);
+  return segments;
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// Tokens: YYYY MM DD HH mm ss SSS Z (UTC offset); anything else is copied, and [text] is copied as is
+function formatDate(timestamp: number, format: string, utc: boolean): string {
+  const date = new Date(timestamp);
+  const offset = utc ? 0 : -date.getTimezoneOffset();
+  const parts: Record<string, string> = {
+    YYYY: String(utc ? date.getUTCFullYear() : date.getFullYear()),
+    MM: pad((utc ? date.getUTCMonth() : date.getMonth()) + 1),
+    DD: pad(utc ? date.getUTCDate() : date.getDate()),
+    HH: pad(utc ? date.getUTCHours() : date.getHours()),
+    mm: pad(utc ? date.getUTCMinutes() : date.getMinutes()),
+    ss: pad(utc ? date.getUTCSeconds() : date.getSeconds()),
+    SSS: pad(utc ? date.getUTCMilliseconds() : date.getMilliseconds(), 3),
+    Z: offset === 0 && utc
+      ? 'Z'
+      : `${offset < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`
+  };
+  return format.replace(/\[([^\]]*)\]|YYYY|SSS|MM|DD|HH|mm|ss|Z/g, (token, escaped) => escaped ?? parts[token]);
+}
+
+// Tokens: HH (total hours) mm ss SSS
+function formatDuration(ms: number, format: string): string {
+  const total = Math.max(0, Math.floor(ms));
+  const parts: Record<string, string> = {
+    HH: pad(Math.floor(total / 3600000)),
+    mm: pad(Math.floor(total / 60000) % 60),
+    ss: pad(Math.floor(total / 1000) % 60),
+    SSS: pad(total % 1000, 3)
+  };
+  return format.replace(/\[([^\]]*)\]|SSS|HH|mm|ss/g, (token, escaped) => escaped ?? parts[token]);
+}
@@ -0,0 +1,184 @@
+/**
+ * Intro and outro cards: full-frame slates with a title, subtitle and logo, encoded into the recording
+ */
+import { OverlayImage, imageSize, loadImage } from './images';
+import { fitRect } from './OutputOptions';
+import { TextBlock, TextStyle, blockHeight, drawTextBlock, fontString, layoutText } from './TextStyle';
+
+export interface TitleCard {
+  duration: number; // Milliseconds
+  background?: string; // Default: '#000000'
+  backgroundImage?: string | OverlayImage; // Covers the frame, cropped around its center
+  title?: string; // May contain placeholders such as {date}, and newlines
+  titleSize?: number; // Pixels, default 1/12 of the frame height
+  titleColor?: string; // Default: '#ffffff'
+  subtitle?: string;
+  subtitleSize?: number; // Default: 1/24 of the frame height
+  subtitleColor?: string; // Default: 'rgba(255, 255, 255, 0.8)'
+  logo?: string | OverlayImage;
+  logoWidth?: number; // Pixels, default 1/5 of the frame width; the height keeps the aspect ratio
+  textStyle?: TextStyle; // Font, outline, shadow and so on for the title and subtitle
+  fade?: number; // Milliseconds of cross-fade with the live content, 0 to cut; default 500
+}
+
+interface CardItem {
+  height: number;
+  draw: (top: number) => void;
+}
+
+function validateCard(card: TitleCard, name: string): void {
+  if (!Number.isFinite(card.duration) || card.duration <= 0) {
+    throw new Error(`The ${name} duration must be a positive number of milliseconds`);
+  }
+  if (card.fade !== undefined && (!Number.isFinite(card.fade) || card.fade < 0)) {
+    throw new Error(`The ${name} fade must be a non-negative number of milliseconds`);
+  }
+}
+
+export class TitleCards {
+  private intro: TitleCard | null;
+  private outro: TitleCard | null;
+  private images = new Map<string | OverlayImage, OverlayImage>();
+  private loading: Promise<void> | null = null;
+
+  constructor(intro?: TitleCard, outro?: TitleCard) {
+    if (intro) validateCard(intro, 'intro');
+    if (outro) validateCard(outro, 'outro');
+    this.intro = intro ?? null;
+    this.outro = outro ?? null;
+  }
+
+  get introDuration(): number {
+    return this.intro?.duration ?? 0;
+  }
+
+  get outroDuration(): number {
+    return this.outro?.duration ?? 0;
+  }
+
+  /**
+   * CSS fonts of the titles and subtitles for a frame of the given height, to load before the first frame
+   */
+  fonts(frameHeight: number): string[] {
+    return [this.intro, this.outro].flatMap((card) => {
+      if (!card) return [];
+      const fonts: string[] = [];
+      if (card.title) fonts.push(fontString(card.titleSize ?? Math.round(frameHeight / 12), card.textStyle));
+      if (card.subtitle) fonts.push(fontString(card.subtitleSize ?? Math.round(frameHeight / 24), card.textStyle));
+      return fonts;
+    });
+  }
+
+  /**
+   * Load background images and logos; later calls reuse the first load
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      const sources = [this.intro, this.outro]
+        .flatMap(card => (card ? [card.backgroundImage, card.logo] : []))
+        .filter((source): source is string | OverlayImage => !!source);
+      this.loading = Promise.all(sources.map(async (source) => {
+        const image = await loadImage(source);
+        if (image) {
+          this.images.set(source, image);
+        }
+      })).then(() => undefined);
+    }
+    return this.loading;
+  }
+
+  /**
+   * Draw the card showing at timeMs, if any. The intro covers the start of the recording; the outro
+   * covers its end, once the end is known.
+   */
+  draw(
+    ctx: CanvasRenderingContext2D,
+    frameWidth: number,
+    frameHeight: number,
+    timeMs: number,
+    end: number | null,
+    renderText: (text: string) => string
+  ): void {
+    const { intro, outro } = this;
+
+    if (intro && timeMs < intro.duration) {
+      const fade = intro.fade ?? 500;
+      const opacity = fade > 0 ? Math.min(1, (intro.duration - timeMs) / fade) : 1;
+      this.drawCard(ctx, intro, frameWidth, frameHeight, opacity, renderText);
+    }
+
+    if (outro && end !== null && timeMs >= end - outro.duration) {
+      const fade = outro.fade ?? 500;
+      const opacity = fade > 0 ? Math.min(1, (timeMs - (end - outro.duration)) / fade) : 1;
+      this.drawCard(ctx, outro, frameWidth, frameHeight, opacity, renderText);
+    }
+  }
+
+  private drawCard(
+    ctx: CanvasRenderingContext2D,
+    card: TitleCard,
+    frameWidth: number,
+    frameHeight: number,
+    opacity: number,
+    renderText: (text: string) => string
+  ): void {
+    if (opacity <= 0) return;
+
+    ctx.save();
+    ctx.globalAlpha = opacity;
+
+    ctx.fillStyle = card.background ?? '#000000';
+    ctx.fillRect(0, 0, frameWidth, frameHeight);
+
+    const backgroundImage = card.backgroundImage && this.images.get(card.backgroundImage);
+    if (backgroundImage) {
+      const { width, height } = imageSize(backgroundImage);
+      if (width > 0 && height > 0) {
+        const rect = fitRect(width, height, frameWidth, frameHeight, 'cover');
+        ctx.drawImage(backgroundImage, rect.sx, rect.sy, rect.sw, rect.sh, rect.dx, rect.dy, rect.dw, rect.dh);
+      }
+    }
+
+    // Logo, title and subtitle are stacked and centered as a group
+    const items: CardItem[] = [];
+    const logo = card.logo && this.images.get(card.logo);
+    if (logo) {
+      const { width, height } = imageSize(logo);
+      if (width > 0 && height > 0) {
+        const logoWidth = card.logoWidth ?? frameWidth / 5;
+        const logoHeight = (logoWidth * height) / width;
+        items.push({ height: logoHeight, draw: top => ctx.drawImage(logo, (frameWidth - logoWidth) / 2, top, logoWidth, logoHeight) });
+      }
+    }
+
+    // Long titles wrap within the frame
+    const style: TextStyle = { overflow: 'wrap', ...card.textStyle, align: 'center' };
+    const textItem = (text: string, size: number, color: string): CardItem => {
+      const block: TextBlock = layoutText(ctx, renderText(text), size, style, frameWidth * 0.9);
+      const font = ctx.font;
+      return {
+        height: blockHeight(block),
+        draw: (top) => {
+          ctx.font = font;
+          drawTextBlock(ctx, block, (frameWidth - block.width) / 2, top + block.ascent, color, 'center', style);
+        }
+      };
+    };
+    if (card.title) {
+      items.push(textItem(card.title, card.titleSize ?? Math.round(frameHeight / 12), card.titleColor ?? '#ffffff'));
+    }
+    if (card.subtitle) {
+      items.push(textItem(card.subtitle, card.subtitleSize ?? Math.round(frameHeight / 24), card.subtitleColor ?? 'rgba(255, 255, 255, 0.8)'));
+    }
+
+    const gap = frameHeight / 30;
+    const totalHeight = items.reduce((sum, item) => sum + item.height, 0) + gap * Math.max(0, items.length - 1);
+    let top = (frameHeight - totalHeight) / 2;
+    for (const item of items) {
+      item.draw(top);
+      top += item.height + gap;
+    }
+
+    ctx.restore();
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Watermark bars along the frame edges: stacking, side bars with turned or stacked text, logos and
+ * several pieces of content per bar, and the room they take from the live content
+ */
+import type { BarSegment, WatermarkBar } from '../CanvasRecorder';
+import { OverlayImage, imageSize, loadImage } from './images';
+import { blockHeight, drawTextBlock, fontString, layoutText } from './TextStyle';
+
+export interface BarRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface BarItem {
+  width: number;
+  height: number;
+  draw: (x: number, y: number) => void;
+}
+
+const POSITIONS = ['top', 'bottom', 'left', 'right'];
+
+const isSide = (bar: WatermarkBar) => bar.position === 'left' || bar.position === 'right';
+
+export class WatermarkBars {
+  private bars: WatermarkBar[];
+  private images = new Map<string | OverlayImage, OverlayImage>();
+  private loading: Promise<void> | null = null;
+
+  constructor(bars: WatermarkBar[]) {
+    for (const bar of bars) {
+      if (!POSITIONS.includes(bar.position)) {
+        throw new Error(`Unknown watermark bar position: ${bar.position}`);
+      }
+      if (!Number.isFinite(bar.thickness) || bar.thickness < 0) {
+        throw new Error('Watermark bar thickness must be a non-negative number');
+      }
+      for (const segment of bar.segments ?? []) {
+        if (!segment.text === !segment.image) {
+          throw new Error('Each watermark bar segment needs either text or an image');
+        }
+      }
+    }
+    this.bars = bars;
+  }
+
+  // CSS fonts of the bar texts, to load before the first frame
+  get fonts(): string[] {
+    return this.bars.flatMap(bar => segmentsOf(bar)
+      .filter(segment => segment.text)
+      .map(segment => fontString(segment.textSize ?? bar.textSize ?? 16, segment.textStyle ?? bar.textStyle)));
+  }
+
+  /**
+   * Load the bars' logos; later calls reuse the first load
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      const sources = this.bars.flatMap(bar => (bar.segments ?? []).flatMap(segment => (segment.image ? [segment.image] : [])));
+      this.loading = Promise.all(sources.map(async (source) => {
+        const image = await loadImage(source);
+        if (image) {
+          this.images.set(source, image);
+        }
+      })).then(() => undefined);
+    }
+    return this.loading;
+  }
+
+  /**
+   * The part of the frame left to the live content by bars with insetContent
+   */
+  contentArea(frameWidth: number, frameHeight: number): BarRect {
+    return this.layout(frameWidth, frameHeight).content;
+  }
+
+  draw(ctx: CanvasRenderingContext2D, frameWidth: number, frameHeight: number, renderText: (text: string) => string): void {
+    const { rects } = this.layout(frameWidth, frameHeight);
+
+    this.bars.forEach((bar, index) => {
+      const rect = rects[index];
+      ctx.fillStyle = bar.color;
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+
+      // Content is laid out in the bar's own coordinates, turned when text runs along a side bar
+      const orientation = isSide(bar) ? bar.textOrientation ?? 'rotated' : 'horizontal';
+      const alongX = !isSide(bar) || orientation === 'rotated';
+      const length = isSide(bar) ? rect.height : rect.width;
+      const across = isSide(bar) ? rect.width : rect.height;
+      const padding = bar.textPadding ?? 10;
+      const turn = orientation !== 'rotated' ? 0 : bar.position === 'left' ? -Math.PI / 2 : Math.PI / 2;
+
+      ctx.save();
+      if (turn < 0) {
+        ctx.translate(rect.x, rect.y + rect.height);
+      } else if (turn > 0) {
+        ctx.translate(rect.x + rect.width, rect.y);
+      } else {
+        ctx.translate(rect.x, rect.y);
+      }
+      ctx.rotate(turn);
+
+      for (const segment of segmentsOf(bar)) {
+        // Turned on the left edge, the bar's text starts at the bottom, so its 'left' is there
+        let align = segment.align ?? 'center';
+        if (orientation === 'rotated' && bar.position === 'left' && align !== 'center') {
+          align = align === 'left' ? 'right' : 'left';
+        }
+
+        const available = (alongX ? length : across) - 2 * padding;
+        const item = segment.image
+          ? this.imageItem(ctx, segment, across - 2 * padding, isSide(bar), turn)
+          : this.textItem(ctx, bar, segment, renderText, available, orientation === 'vertical', alongX ? align : 'center');
+        if (!item) continue;
+
+        const size = alongX ? item.width : item.height;
+        const along = align === 'left' ? padding : align === 'right' ? length - size - padding : (length - size) / 2;
+        const offset = (across - (alongX ? item.height : item.width)) / 2;
+        if (alongX) {
+          item.draw(along, offset);
+        } else {
+          item.draw(offset, along);
+        }
+      }
+      ctx.restore();
+    });
+  }
+
+  // Top and bottom bars run the full width; side bars fill the height left between them
+  private layout(frameWidth: number, frameHeight: number): { rects: BarRect[]; content: BarRect } {
+    const stacked = { top: 0, bottom: 0, left: 0, right: 0 };
+    const inset = { top: 0, bottom: 0, left: 0, right: 0 };
+    const rects: BarRect[] = [];
+
+    const ordered = [...this.bars.entries()].sort(([, a], [, b]) => Number(isSide(a)) - Number(isSide(b)));
+    for (const [index, bar] of ordered) {
+      const side = isSide(bar);
+      const thickness = bar.thicknessUnit === '%'
+        ? ((side ? frameWidth : frameHeight) * bar.thickness) / 100
+        : bar.thickness;
+      const start = stacked[bar.position];
+
+      if (side) {
+        const height = Math.max(0, frameHeight - stacked.top - stacked.bottom);
+        const x = bar.position === 'left' ? start : frameWidth - start - thickness;
+        rects[index] = { x, y: stacked.top, width: thickness, height };
+      } else {
+        const y = bar.position === 'top' ? start : frameHeight - start - thickness;
+        rects[index] = { x: 0, y, width: frameWidth, height: thickness };
+      }
+
+      stacked[bar.position] += thickness;
+      if (bar.insetContent) {
+        inset[bar.position] = stacked[bar.position];
+      }
+    }
+
+    const content = {
+      x: inset.left,
+      y: inset.top,
+      width: Math.max(1, frameWidth - inset.left - inset.right),
+      height: Math.max(1, frameHeight - inset.top - inset.bottom)
+    };
+    return { rects, content };
+  }
+
+  // Logos stay upright in turned bars; turn is the bar's rotation, which the item's size is given in
+  private imageItem(
+    ctx: CanvasRenderingContext2D,
+    segment: BarSegment,
+    fill: number,
+    sideBar: boolean,
+    turn: number
+  ): BarItem | null {
+    const image = segment.image && this.images.get(segment.image);
+    if (!image) return null;
+
+    const { width: naturalWidth, height: naturalHeight } = imageSize(image);
+    if (!naturalWidth || !naturalHeight) return null;
+
+    // Sized across the bar, keeping the aspect ratio
+    const size = Math.max(0, segment.imageSize ?? fill);
+    const width = sideBar ? size : (size * naturalWidth) / naturalHeight;
+    const height = sideBar ? (size * naturalHeight) / naturalWidth : size;
+    if (!turn) {
+      return { width, height, draw: (x, y) => ctx.drawImage(image, x, y, width, height) };
+    }
+
+    return {
+      width: height,
+      height: width,
+      draw: (x, y) => {
+        ctx.save();
+        ctx.translate(x + height / 2, y + width / 2);
+        ctx.rotate(-turn);
+        ctx.drawImage(image, -width / 2, -height / 2, width, height);
+        ctx.restore();
+      }
+    };
+  }
+
+  private textItem(
+    ctx: CanvasRenderingContext2D,
+    bar: WatermarkBar,
+    segment: BarSegment,
+    renderText: (text: string) => string,
+    availableWidth: number,
+    stackLetters: boolean,
+    lineAlign: 'left' | 'right' | 'center'
+  ): BarItem {
+    const style = segment.textStyle ?? bar.textStyle;
+    let text = renderText(segment.text!);
+    if (stackLetters) {
+      text = Array.from(text).join('\n');
+    }
+
+    const block = layoutText(ctx, text, segment.textSize ?? bar.textSize ?? 16, style, availableWidth);
+    const align = style?.align ?? lineAlign;
+    const color = segment.textColor ?? bar.textColor ?? '#ffffff';
+    return {
+      width: block.width,
+      height: blockHeight(block),
+      draw: (x, y) => drawTextBlock(ctx, block, x, y + block.ascent, color, align, style)
+    };
+  }
+}
+
+// The bar's own text comes first, then its segments
+function segmentsOf(bar: WatermarkBar): BarSegment[] {
+  const text: BarSegment[] = bar.text ? [{ text: bar.text, align: bar.textAlign }] : [];
+  return [...text, ...(bar.segments ?? [])];
+}
@@ -0,0 +1,261 @@
+/**
+ * Timed watermark layers: text or images shown for part of the recording, with enter/exit transitions
+ * and keyframed opacity and position
+ */
+import type { WatermarkPosition } from '../CanvasRecorder';
+import { EASINGS, Easing } from './easing';
+import { OverlayImage, imageSize, loadImage } from './images';
+import { TextStyle, blockHeight, drawTextBlock, fontString, layoutText } from './TextStyle';
+
+export type LayerPosition = WatermarkPosition | 'center';
+
+export type LayerImage = OverlayImage;
+
+export interface LayerTransition {
+  type: 'fade' | 'slide';
+  duration?: number; // Milliseconds, default 500
+  edge?: 'left' | 'right' | 'top' | 'bottom'; // Slides enter from and exit to this edge of the frame; default 'left'
+}
+
+export interface LayerKeyframe {
+  time: number; // Milliseconds from the layer's start
+  opacity?: number; // 0-1
+  x?: number; // Pixel position of the layer's top-left corner; overrides position
+  y?: number;
+  easing?: Easing; // How the change into this keyframe accelerates, default 'ease-in-out'
+}
+
+export interface WatermarkLayer {
+  // Content: text (with placeholders and textStyle, as for the text watermark) or an image
+  text?: string;
+  fontSize?: number; // Default: 16
+  color?: string; // Default: '#ffffff'
+  textStyle?: TextStyle;
+  image?: string | LayerImage; // A canvas is drawn live, so it can be animated too
+  imageWidth?: number; // With only one of width/height the other keeps the aspect ratio
+  imageHeight?: number;
+
+  position?: LayerPosition; // Corner, 'center' or { x, y } of the top-left corner; default 'center'
+  start?: number; // Milliseconds of recording time; negative counts back from the end. Default 0
+  end?: number; // Default: the end of the recording
+  opacity?: number; // 0-1, default 1
+  enter?: LayerTransition;
+  exit?: LayerTransition;
+  keyframes?: LayerKeyframe[];
+}
+
+const PADDING = 10;
+
+function resolveTime(time: number, end: number | null): number | null {
+  if (time >= 0) return time;
+  return end === null ? null : Math.max(0, end + time);
+}
+
+// The value of one keyframed property, held before the first and after the last keyframe that sets it
+function keyframeValue(keyframes: LayerKeyframe[], time: number, key: 'opacity' | 'x' | 'y'): number | undefined {
+  const frames = keyframes.filter(keyframe => keyframe[key] !== undefined);
+  if (frames.length === 0) return undefined;
+
+  const next = frames.findIndex(keyframe => keyframe.time > time);
+  if (next === 0) return frames[0][key];
+  if (next === -1) return frames[frames.length - 1][key];
+
+  const from = frames[next - 1];
+  const to = frames[next];
+  const progress = EASINGS[to.easing ?? 'ease-in-out']((time - from.time) / (to.time - from.time));
+  return from[key]! + (to[key]! - from[key]!) * progress;
+}
+
+export class WatermarkLayers {
+  private layers: WatermarkLayer[];
+  private images = new Map<WatermarkLayer, LayerImage>();
+  private loading: Promise<void> | null = null;
+
+  constructor(layers: WatermarkLayer[]) {
+    for (const layer of layers) {
+      if (!layer.text === !layer.image) {
+        throw new Error('Each watermark layer needs either text or an image');
+      }
+      for (const time of [layer.start, layer.end]) {
+        if (time !== undefined && !Number.isFinite(time)) {
+          throw new Error('Watermark layer start and end must be finite numbers of milliseconds');
+        }
+      }
+      for (const keyframe of layer.keyframes ?? []) {
+        if (!Number.isFinite(keyframe.time)) {
+          throw new Error('Watermark layer keyframe times must be finite numbers of milliseconds');
+        }
+        if (keyframe.easing && !EASINGS[keyframe.easing]) {
+          throw new Error(`Unknown watermark layer easing: ${keyframe.easing}`);
+        }
+      }
+    }
+
+    this.layers = layers.map(layer => ({
+      ...layer,
+      keyframes: layer.keyframes && [...layer.keyframes].sort((a, b) => a.time - b.time)
+    }));
+  }
+
+  /**
+   * How long recording has to go on after stop() is called for layers timed from the end to play
+   */
+  get tail(): number {
+    const times = this.layers.flatMap(layer => [layer.start ?? 0, layer.end ?? 0]);
+    // Layers lasting to the end play their exit in its last moments
+    const exits = this.layers.filter(layer => layer.end === undefined && layer.exit).map(layer => layer.exit!.duration ?? 500);
+    return Math.max(0, ...times.map(time => -time), ...exits);
+  }
+
+  // CSS fonts of the text layers, to load before the first frame
+  get fonts(): string[] {
+    return this.layers.filter(layer => layer.text).map(layer => fontString(layer.fontSize ?? 16, layer.textStyle));
+  }
+
+  /**
+   * Load the layers' images; later calls reuse the first load
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = Promise.all(this.layers.map(async (layer) => {
+        const image = layer.image && await loadImage(layer.image);
+        if (image) {
+          this.images.set(layer, image);
+        }
+      })).then(() => undefined);
+    }
+    return this.loading;
+  }
+
+  /**
+   * Draw the layers visible at timeMs, in list order. end is the recording's length once it is known
+   * (from the start in step recordings, from stop() in realtime ones); until then end-relative layers are hidden.
+   */
+  draw(
+    ctx: CanvasRenderingContext2D,
+    frameWidth: number,
+    frameHeight: number,
+    timeMs: number,
+    end: number | null,
+    renderText: (text: string) => string
+  ): void {
+    for (const layer of this.layers) {
+      const start = resolveTime(layer.start ?? 0, end);
+      const stop = layer.end === undefined ? end ?? Infinity : resolveTime(layer.end, end) ?? Infinity;
+      if (start === null || timeMs < start || timeMs >= stop) continue;
+
+      const local = timeMs - start;
+      const keyframes = layer.keyframes ?? [];
+      let opacity = keyframeValue(keyframes, local, 'opacity') ?? layer.opacity ?? 1;
+
+      // Measure the content and place it
+      const content = this.layout(ctx, layer, renderText, frameWidth);
+      if (!content) continue;
+
+      let x = keyframeValue(keyframes, local, 'x');
+      let y = keyframeValue(keyframes, local, 'y');
+      if (x === undefined || y === undefined) {
+        const placed = this.place(layer.position ?? 'center', content.width, content.height, frameWidth, frameHeight);
+        x ??= placed.x;
+        y ??= placed.y;
+      }
+
+      // Transitions: visibility runs from 0 (outside the frame / transparent) to 1
+      for (const [transition, elapsed] of [[layer.enter, local], [layer.exit, stop - timeMs]] as const) {
+        if (!transition) continue;
+        const duration = transition.duration ?? 500;
+        const visibility = EASINGS['ease-out'](Math.min(1, duration > 0 ? elapsed / duration : 1));
+
+        if (transition.type === 'fade') {
+          opacity *= visibility;
+        } else {
+          const hidden = 1 - visibility;
+          switch (transition.edge ?? 'left') {
+            case 'left':
+              x -= hidden * (x + content.width);
+              break;
+            case 'right':
+              x += hidden * (frameWidth - x);
+              break;
+            case 'top':
+              y -= hidden * (y + content.height);
+              break;
+            case 'bottom':
+              y += hidden * (frameHeight - y);
+              break;
+          }
+        }
+      }
+
+      opacity = Math.min(Math.max(opacity, 0), 1);
+      if (opacity === 0) continue;
+
+      ctx.save();
+      ctx.globalAlpha = opacity;
+      content.draw(x, y);
+      ctx.restore();
+    }
+  }
+
+  private layout(
+    ctx: CanvasRenderingContext2D,
+    layer: WatermarkLayer,
+    renderText: (text: string) => string,
+    frameWidth: number
+  ): { width: number; height: number; draw: (x: number, y: number) => void } | null {
+    if (layer.image) {
+      const image = this.images.get(layer);
+      if (!image) return null;
+
+      const { width: naturalWidth, height: naturalHeight } = imageSize(image);
+      if (!naturalWidth || !naturalHeight) return null;
+
+      let width = layer.imageWidth ?? naturalWidth;
+      let height = layer.imageHeight ?? naturalHeight;
+      if (layer.imageWidth && !layer.imageHeight) {
+        height = (layer.imageWidth * naturalHeight) / naturalWidth;
+      } else if (layer.imageHeight && !layer.imageWidth) {
+        width = (layer.imageHeight * naturalWidth) / naturalHeight;
+      }
+      return { width, height, draw: (x, y) => ctx.drawImage(image, x, y, width, height) };
+    }
+
+    const style = layer.textStyle;
+    const boxPadding = style?.background ? style.background.padding ?? 6 : 0;
+    const block = layoutText(ctx, renderText(layer.text!), layer.fontSize ?? 16, style, frameWidth - 2 * (PADDING + boxPadding));
+    const position = layer.position ?? 'center';
+    const align = style?.align ?? (position === 'center' ? 'center' : position === 'top-right' || position === 'bottom-right' ? 'right' : 'left');
+
+    return {
+      width: block.width + 2 * boxPadding,
+      height: blockHeight(block) + 2 * boxPadding,
+      draw: (x, y) => drawTextBlock(ctx, block, x + boxPadding, y + boxPadding + block.ascent, layer.color ?? '#ffffff', align, style)
+    };
+  }
+
+  private place(
+    position: LayerPosition,
+    width: number,
+    height: number,
+    frameWidth: number,
+    frameHeight: number
+  ): { x: number; y: number } {
+    if (typeof position === 'object') {
+      return position;
+    }
+
+    switch (position) {
+      case 'center':
+        return { x: (frameWidth - width) / 2, y: (frameHeight - height) / 2 };
+      case 'top-left':
+        return { x: PADDING, y: PADDING };
+      case 'top-right':
+        return { x: frameWidth - width - PADDING, y: PADDING };
+      case 'bottom-left':
+        return { x: PADDING, y: frameHeight - height - PADDING };
+      case 'bottom-right':
+      default:
+        return { x: frameWidth - width - PADDING, y: frameHeight - height - PADDING };
+    }
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Tiled watermark: text or an image repeated across the whole frame at an angle, so it can't be cropped out
+ */
+import { OverlayImage, imageSize, loadImage } from './images';
+import { TextStyle, blockHeight, drawTextBlock, fontString, layoutText } from './TextStyle';
+
+export interface TiledWatermark {
+  text?: string; // Placeholders are filled once per recording, when the first frame is drawn
+  image?: string | OverlayImage; // Drawn above the text when both are set; canvases are copied once per recording
+  imageWidth?: number; // Pixels; the height keeps the aspect ratio. Default: the image's own width
+  recipient?: string; // Identifier drawn smaller under each tile, e.g. the partner the copy was made for
+  fontSize?: number; // Default: 24; the recipient line is 60% of it
+  color?: string; // Default: '#808080', readable on light and dark content
+  textStyle?: TextStyle;
+  angle?: number; // Degrees, default -30 (rising to the right)
+  spacing?: number; // Pixels between tiles, default 120
+  opacity?: number; // 0-1, default 0.25
+  stagger?: boolean; // Shift every other row by half a tile, default true
+}
+
+const LINE_GAP = 4;
+
+export class WatermarkTiles {
+  private options: TiledWatermark;
+  private image: OverlayImage | null = null;
+  private loading: Promise<void> | null = null;
+  private pattern: CanvasPattern | null = null;
+
+  constructor(options: TiledWatermark) {
+    if (!options.text && !options.image && !options.recipient) {
+      throw new Error('A tiled watermark needs text, an image or a recipient');
+    }
+    for (const value of [options.angle, options.spacing, options.fontSize, options.imageWidth]) {
+      if (value !== undefined && !Number.isFinite(value)) {
+        throw new Error('Tiled watermark sizes and angle must be finite numbers');
+      }
+    }
+    if ((options.spacing ?? 0) < 0) {
+      throw new Error('Tiled watermark spacing must not be negative');
+    }
+    this.options = options;
+  }
+
+  // CSS fonts of the text and recipient lines, to load before the first frame
+  get fonts(): string[] {
+    const { text, recipient, fontSize = 24, textStyle } = this.options;
+    const fonts: string[] = [];
+    if (text) fonts.push(fontString(fontSize, textStyle));
+    if (recipient) fonts.push(fontString(Math.round(fontSize * 0.6), textStyle));
+    return fonts;
+  }
+
+  /**
+   * Load the image; later calls reuse the first load. The tile is rebuilt on the next frame.
+   */
+  load(): Promise<void> {
+    this.pattern = null;
+    if (!this.loading) {
+      const { image } = this.options;
+      this.loading = image
+        ? loadImage(image).then((loaded) => {
+          this.image = loaded;
+        })
+        : Promise.resolve();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Fill the frame with the tile pattern. The tile is rendered once and reused as a CanvasPattern,
+   * so each frame costs a single fill.
+   */
+  draw(ctx: CanvasRenderingContext2D, frameWidth: number, frameHeight: number, renderText: (text: string) => string): void {
+    this.pattern ??= this.createPattern(ctx, renderText);
+    if (!this.pattern) return;
+
+    const { angle = -30, opacity = 0.25 } = this.options;
+    // Large enough to cover the frame at any angle
+    const diagonal = Math.ceil(Math.hypot(frameWidth, frameHeight));
+
+    ctx.save();
+    ctx.globalAlpha = Math.min(Math.max(opacity, 0), 1);
+    ctx.translate(frameWidth / 2, frameHeight / 2);
+    ctx.rotate((angle * Math.PI) / 180);
+    ctx.fillStyle = this.pattern;
+    ctx.fillRect(-diagonal / 2, -diagonal / 2, diagonal, diagonal);
+    ctx.restore();
+  }
+
+  private createPattern(ctx: CanvasRenderingContext2D, renderText: (text: string) => string): CanvasPattern | null {
+    const {
+      text,
+      recipient,
+      fontSize = 24,
+      color = '#808080',
+      textStyle,
+      imageWidth,
+      spacing = 120,
+      stagger = true
+    } = this.options;
+
+    // The tile's content is a centered column: image, text, recipient
+    const items: { width: number; height: number; draw: (tileCtx: CanvasRenderingContext2D, x: number, y: number) => void }[] = [];
+
+    const image = this.image;
+    if (image) {
+      const { width: naturalWidth, height: naturalHeight } = imageSize(image);
+      if (naturalWidth > 0 && naturalHeight > 0) {
+        const width = imageWidth ?? naturalWidth;
+        const height = (width * naturalHeight) / naturalWidth;
+        items.push({ width, height, draw: (tileCtx, x, y) => tileCtx.drawImage(image, x, y, width, height) });
+      }
+    }
+
+    const style: TextStyle = { ...textStyle, align: 'center' };
+    for (const [value, size] of [[text && renderText(text), fontSize], [recipient, Math.round(fontSize * 0.6)]] as const) {
+      if (!value) continue;
+      const block = layoutText(ctx, value, size, style);
+      const font = ctx.font;
+      items.push({
+        width: block.width,
+        height: blockHeight(block),
+        draw: (tileCtx, x, y) => {
+          tileCtx.font = font;
+          drawTextBlock(tileCtx, block, x, y + block.ascent, color, 'center', style);
+        }
+      });
+    }
+    if (items.length === 0) return null;
+
+    const contentWidth = Math.max(...items.map(item => item.width));
+    const contentHeight = items.reduce((sum, item) => sum + item.height, 0) + LINE_GAP * (items.length - 1);
+    const cellWidth = Math.ceil(contentWidth + spacing);
+    const cellHeight = Math.ceil(contentHeight + spacing);
+    if (cellWidth <= 0 || cellHeight <= 0) return null;
+
+    // With stagger, the tile holds two rows, the second shifted by half a cell (and wrapped around)
+    const tile = document.createElement('canvas');
+    tile.width = cellWidth;
+    tile.height = stagger ? cellHeight * 2 : cellHeight;
+    const tileCtx = tile.getContext('2d');
+    if (!tileCtx) return null;
+
+    const drawCell = (left: number, top: number) => {
+      let y = top + spacing / 2;
+      for (const item of items) {
+        item.draw(tileCtx, left + (cellWidth - item.width) / 2, y);
+        y += item.height + LINE_GAP;
+      }
+    };
+    drawCell(0, 0);
+    if (stagger) {
+      drawCell(cellWidth / 2, cellHeight);
+      drawCell(-cellWidth / 2, cellHeight);
+    }
+
+    return ctx.createPattern(tile, 'repeat');
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Easing curves for keyframed animation
+ */
+
+export type Easing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+export const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: t => t,
+  'ease-in': t => t * t,
+  'ease-out': t => t * (2 - t),
+  'ease-in-out': t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2)
+};
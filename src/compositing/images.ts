@@ -0,0 +1,38 @@
+/**
+ * Image loading for overlays that accept a URL, an image or a canvas
+ */
+
+export type OverlayImage = HTMLImageElement | HTMLCanvasElement;
+
+/**
+ * Wait for an image to be usable; canvases are used as they are. Resolves null, with a warning, if it fails to load.
+ */
+export function loadImage(source: string | OverlayImage): Promise<OverlayImage | null> {
+  if (source instanceof HTMLCanvasElement) {
+    return Promise.resolve(source);
+  }
+
+  const image = typeof source === 'string' ? new Image() : source;
+  if (typeof source !== 'string' && image.complete && image.naturalWidth > 0) {
+    return Promise.resolve(image);
+  }
+
+  return new Promise((resolve) => {
+    image.addEventListener('load', () => resolve(image), { once: true });
+    image.addEventListener('error', () => {
+      console.warn('Failed to load image:', typeof source === 'string' ? source : image.src);
+      resolve(null);
+    }, { once: true });
+    if (typeof source === 'string') {
+      image.crossOrigin = 'anonymous'; // Handle CORS if needed
+      image.src = source;
+    }
+  });
+}
+
+// Intrinsic size; canvases may be resized while recording
+export function imageSize(image: OverlayImage): { width: number; height: number } {
+  return image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
@@ -0,0 +1,16 @@
+/**
+ * Canvas path helpers shared by the overlays
+ */
+
+// A rectangle with rounded corners; a radius of half the size makes a circle
+export function roundedRectPath(x: number, y: number, width: number, height: number, radius: number): Path2D {
+  const r = Math.max(0, Math.min(radius, width / 2, height / 2));
+  const path = new Path2D();
+  path.moveTo(x + r, y);
+  path.arcTo(x + width, y, x + width, y + height, r);
+  path.arcTo(x + width, y + height, x, y + height, r);
+  path.arcTo(x, y + height, x, y, r);
+  path.arcTo(x, y, x + width, y, r);
+  path.closePath();
+  return path;
+}
@@ -0,0 +1,137 @@
+/**
+ * Animated image export options (GIF, APNG, animated WebP) and FFmpeg argument building
+ */
+
+export type AnimationFormat = 'gif' | 'apng' | 'webp';
+
+// paletteuse dithering; 'none' gives the smallest GIFs but visible banding on gradients
+export type DitherMode = 'none' | 'bayer' | 'heckbert' | 'floyd_steinberg' | 'sierra2' | 'sierra2_4a';
+
+export interface AnimationOptions {
+  format?: AnimationFormat; // Default: 'gif'
+  fps?: number; // Output frame rate, default 15
+  width?: number; // Output width in pixels, height keeps the aspect ratio; default: source width
+  dither?: DitherMode; // GIF only, default 'sierra2_4a'
+  bayerScale?: number; // 0-5, GIF with 'bayer' dithering only; lower is more visible pattern, default 2
+  maxColors?: number; // GIF palette size, 2-256, default 256
+  loop?: number; // Times to play the animation; 0 (default) loops forever
+  quality?: number; // WebP only, 0-100, default 75
+}
+
+export interface ResolvedAnimationOptions {
+  format: AnimationFormat;
+  fps: number;
+  width?: number;
+  dither: DitherMode;
+  bayerScale: number;
+  maxColors: number;
+  loop: number;
+  quality: number;
+}
+
+export const ANIMATION_MIME_TYPES: Record<AnimationFormat, string> = {
+  gif: 'image/gif',
+  apng: 'image/apng',
+  webp: 'image/webp'
+};
+
+export function resolveAnimationOptions(options: AnimationOptions = {}): ResolvedAnimationOptions {
+  const format = options.format ?? 'gif';
+  if (!ANIMATION_MIME_TYPES[format]) {
+    throw new Error(`Unsupported animation format: ${format}`);
+  }
+
+  const fps = options.fps ?? 15;
+  if (!Number.isFinite(fps) || fps <= 0) {
+    throw new Error('fps must be a positive number');
+  }
+  if (options.width !== undefined && (!Number.isInteger(options.width) || options.width <= 0)) {
+    throw new Error('width must be a positive integer');
+  }
+
+  const loop = options.loop ?? 0;
+  if (!Number.isInteger(loop) || loop < 0) {
+    throw new Error('loop must be a non-negative integer');
+  }
+
+  return {
+    format,
+    fps,
+    width: options.width,
+    dither: options.dither ?? 'sierra2_4a',
+    bayerScale: Math.min(5, Math.max(0, Math.round(options.bayerScale ?? 2))),
+    maxColors: Math.min(256, Math.max(2, Math.round(options.maxColors ?? 256))),
+    loop,
+    quality: Math.min(100, Math.max(0, options.quality ?? 75))
+  };
+}
+
+// Frame rate and size filters shared by the palette pass and the encoding pass
+function frameFilters(options: ResolvedAnimationOptions): string {
+  const filters = [`fps=${options.fps}`];
+  if (options.width) {
+    filters.push(`scale=${options.width}:-1:flags=lanczos`);
+  }
+  return filters.join(',');
+}
+
+/**
+ * First GIF pass: build an optimal palette for the whole clip.
+ * stats_mode=diff weights the palette towards moving pixels, which suits maps with a static background.
+ */
+export function buildPaletteArgs(options: ResolvedAnimationOptions, input: string, palette: string): string[] {
+  return [
+    '-i', input,
+    '-vf', `${frameFilters(options)},palettegen=max_colors=${options.maxColors}:stats_mode=diff`,
+    '-y', palette
+  ];
+}
+
+/**
+ * Arguments that encode the animation; GIF expects the palette from buildPaletteArgs() as its second input
+ */
+export function buildAnimationArgs(
+  options: ResolvedAnimationOptions,
+  input: string,
+  output: string,
+  palette?: string
+): string[] {
+  switch (options.format) {
+    case 'gif': {
+      if (!palette) {
+        throw new Error('GIF export needs a palette');
+      }
+      const dither = options.dither === 'bayer'
+        ? `dither=bayer:bayer_scale=${options.bayerScale}`
+        : `dither=${options.dither}`;
+      // GIF's loop field counts repeats after the first play: -1 plays once, 0 repeats forever
+      return [
+        '-i', input,
+        '-i', palette,
+        '-lavfi', `${frameFilters(options)}[x];[x][1:v]paletteuse=${dither}:diff_mode=rectangle`,
+        '-loop', String(options.loop === 0 ? 0 : options.loop === 1 ? -1 : options.loop - 1),
+        '-an',
+        output
+      ];
+    }
+    case 'apng':
+      return [
+        '-i', input,
+        '-vf', frameFilters(options),
+        '-f', 'apng',
+        '-plays', String(options.loop),
+        '-an',
+        output
+      ];
+    case 'webp':
+      return [
+        '-i', input,
+        '-vf', frameFilters(options),
+        '-c:v', 'libwebp',
+        '-quality', String(options.quality),
+        '-loop', String(options.loop),
+        '-an',
+        output
+      ];
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * FFmpeg conversion options, quality profiles and argument building
+ * Shared by VideoConverter (validation) and the FFmpeg worker (argument building)
+ */
+
+export type OutputContainer = 'mp4' | 'webm' | 'mov' | 'mkv';
+
+export type ConversionVideoCodec = 'h264' | 'h265' | 'vp8' | 'vp9' | 'prores';
+
+export type ConversionAudioCodec = 'aac' | 'opus' | 'mp3' | 'vorbis' | 'none';
+
+// x264/x265 speed presets; slower presets give smaller files at the same quality
+export type EncoderPreset =
+  | 'ultrafast'
+  | 'superfast'
+  | 'veryfast'
+  | 'faster'
+  | 'fast'
+  | 'medium'
+  | 'slow'
+  | 'slower'
+  | 'veryslow';
+
+// 'web': small, progressive-download friendly; 'archive': near-lossless; 'social': what upload platforms expect
+export type QualityProfile = 'web' | 'archive' | 'social';
+
+export interface ConversionOptions {
+  container?: OutputContainer; // Default: 'mp4'
+  videoCodec?: ConversionVideoCodec; // Default: the container's default codec
+  audioCodec?: ConversionAudioCodec; // Default: the container's default codec; 'none' drops audio
+  profile?: QualityProfile; // Named preset; explicit options below override it
+  crf?: number; // Constant quality (lower is better); x264/x265 ignore it when videoBitrate is set
+  videoBitrate?: number | string; // Bits per second, or an FFmpeg value such as '4M'
+  audioBitrate?: number | string; // Bits per second, or an FFmpeg value such as '128k'
+  preset?: EncoderPreset; // Encoder speed/size trade-off
+  pixelFormat?: string; // e.g. 'yuv420p' for the widest player support
+  faststart?: boolean; // Move the MP4/MOV index to the front so playback starts before the download finishes
+}
+
+// Every field resolved against the container defaults and profile
+export interface ResolvedConversionOptions {
+  container: OutputContainer;
+  profile?: QualityProfile;
+  videoCodec: ConversionVideoCodec;
+  audioCodec: ConversionAudioCodec;
+  crf?: number;
+  videoBitrate?: string;
+  audioBitrate?: string;
+  preset: EncoderPreset;
+  pixelFormat?: string;
+  faststart: boolean;
+}
+
+export const CONTAINER_MIME_TYPES: Record<OutputContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  mkv: 'video/x-matroska'
+};
+
+const CONTAINER_DEFAULTS: Record<OutputContainer, { videoCodec: ConversionVideoCodec; audioCodec: ConversionAudioCodec }> = {
+  mp4: { videoCodec: 'h264', audioCodec: 'aac' },
+  webm: { videoCodec: 'vp9', audioCodec: 'opus' },
+  mov: { videoCodec: 'h264', audioCodec: 'aac' },
+  mkv: { videoCodec: 'h264', audioCodec: 'aac' }
+};
+
+// Codecs each container can hold
+const CONTAINER_CODECS: Record<OutputContainer, { video: ConversionVideoCodec[]; audio: ConversionAudioCodec[] }> = {
+  mp4: { video: ['h264', 'h265', 'vp9'], audio: ['aac', 'opus', 'mp3', 'none'] },
+  webm: { video: ['vp8', 'vp9'], audio: ['opus', 'vorbis', 'none'] },
+  mov: { video: ['h264', 'h265', 'prores'], audio: ['aac', 'mp3', 'none'] },
+  mkv: { video: ['h264', 'h265', 'vp8', 'vp9', 'prores'], audio: ['aac', 'opus', 'mp3', 'vorbis', 'none'] }
+};
+
+const VIDEO_ENCODERS: Record<ConversionVideoCodec, string> = {
+  h264: 'libx264',
+  h265: 'libx265',
+  vp8: 'libvpx',
+  vp9: 'libvpx-vp9',
+  prores: 'prores_ks'
+};
+
+const AUDIO_ENCODERS: Record<Exclude<ConversionAudioCodec, 'none'>, string> = {
+  aac: 'aac',
+  opus: 'libopus',
+  mp3: 'libmp3lame',
+  vorbis: 'libvorbis'
+};
+
+interface ProfileSettings {
+  preset: EncoderPreset;
+  pixelFormat?: string;
+  faststart: boolean;
+  audioBitrate: string;
+  crf: Partial<Record<ConversionVideoCodec, number>>; // CRF scales differ between encoders
+  videoBitrate: Partial<Record<ConversionVideoCodec, string>>; // For encoders without a usable CRF mode
+}
+
+// Used when no profile is given; matches the original hard-coded libx264 fast/CRF 22/AAC 128k
+const DEFAULT_SETTINGS: ProfileSettings = {
+  preset: 'fast',
+  faststart: false,
+  audioBitrate: '128k',
+  crf: { h264: 22, h265: 26, vp9: 32 },
+  videoBitrate: { vp8: '2M' }
+};
+
+export const QUALITY_PROFILES: Record<QualityProfile, ProfileSettings> = {
+  web: {
+    preset: 'medium',
+    pixelFormat: 'yuv420p',
+    faststart: true,
+    audioBitrate: '128k',
+    crf: { h264: 26, h265: 30, vp9: 36 },
+    videoBitrate: { vp8: '1M' }
+  },
+  archive: {
+    preset: 'slow',
+    faststart: false,
+    audioBitrate: '256k',
+    crf: { h264: 14, h265: 16, vp9: 18 },
+    videoBitrate: { vp8: '8M' }
+  },
+  social: {
+    preset: 'medium',
+    pixelFormat: 'yuv420p',
+    faststart: true,
+    audioBitrate: '160k',
+    crf: { h264: 21, h265: 24, vp9: 31 },
+    videoBitrate: { vp8: '4M' }
+  }
+};
+
+// ProRes quality comes from its profile rather than CRF: 0 proxy, 2 standard, 3 HQ
+const PRORES_PROFILES: Record<QualityProfile | 'default', number> = {
+  default: 2,
+  web: 0,
+  archive: 3,
+  social: 2
+};
+
+// libvpx speed from the x264-style preset (higher is faster)
+const CPU_USED: Record<EncoderPreset, number> = {
+  ultrafast: 8,
+  superfast: 7,
+  veryfast: 6,
+  faster: 5,
+  fast: 4,
+  medium: 3,
+  slow: 2,
+  slower: 1,
+  veryslow: 0
+};
+
+function formatBitrate(bitrate: number | string | undefined): string | undefined {
+  if (bitrate === undefined) return undefined;
+  return typeof bitrate === 'number' ? String(Math.round(bitrate)) : bitrate;
+}
+
+/**
+ * Fill in container defaults and profile settings, and check the codecs fit the container.
+ * Throws for combinations FFmpeg would refuse to mux.
+ */
+export function resolveConversionOptions(options: ConversionOptions = {}): ResolvedConversionOptions {
+  const container = options.container ?? 'mp4';
+  const defaults = CONTAINER_DEFAULTS[container];
+  if (!defaults) {
+    throw new Error(`Unsupported output container: ${container}`);
+  }
+
+  const videoCodec = options.videoCodec ?? defaults.videoCodec;
+  const audioCodec = options.audioCodec ?? defaults.audioCodec;
+
+  // The bundled FFmpeg core has no AV1 encoder (libaom), so AV1 is not offered
+  if (!Object.keys(VIDEO_ENCODERS).includes(videoCodec)) {
+    throw new Error(`Unsupported video codec: ${videoCodec}`);
+  }
+  if (!CONTAINER_CODECS[container].video.includes(videoCodec)) {
+    throw new Error(`Video codec ${videoCodec} cannot be stored in ${container}`);
+  }
+  if (!CONTAINER_CODECS[container].audio.includes(audioCodec)) {
+    throw new Error(`Audio codec ${audioCodec} cannot be stored in ${container}`);
+  }
+  if (options.crf !== undefined && (!Number.isFinite(options.crf) || options.crf < 0)) {
+    throw new Error('crf must be a non-negative number');
+  }
+
+  const settings = options.profile ? QUALITY_PROFILES[options.profile] : DEFAULT_SETTINGS;
+  if (!settings) {
+    throw new Error(`Unknown quality profile: ${options.profile}`);
+  }
+
+  const videoBitrate = formatBitrate(options.videoBitrate);
+  const isProRes = videoCodec === 'prores';
+
+  return {
+    container,
+    profile: options.profile,
+    videoCodec,
+    audioCodec,
+    // An explicit bitrate switches the encoder to bitrate mode, so the profile CRF is dropped.
+    // ProRes has neither; its quality comes from the profile
+    crf: isProRes ? undefined : options.crf ?? (videoBitrate ? undefined : settings.crf[videoCodec]),
+    videoBitrate: isProRes
+      ? undefined
+      // VP8 needs a bitrate ceiling even in CRF mode
+      : videoBitrate ?? (options.crf === undefined || videoCodec === 'vp8' ? settings.videoBitrate[videoCodec] : undefined),
+    audioBitrate: formatBitrate(options.audioBitrate) ?? settings.audioBitrate,
+    preset: options.preset ?? settings.preset,
+    // ProRes is 4:2:2 only, so the profiles' 4:2:0 default would make it fail
+    pixelFormat: options.pixelFormat ?? (isProRes ? undefined : settings.pixelFormat),
+    // faststart only means something for MP4-family containers
+    faststart: (container === 'mp4' || container === 'mov') && (options.faststart ?? settings.faststart)
+  };
+}
+
+/**
+ * FFmpeg arguments for encoding the video and audio streams with resolved options
+ * (everything between the inputs and the output file name)
+ */
+export function buildEncodingArgs(options: ResolvedConversionOptions): string[] {
+  const { profile, videoCodec, audioCodec, crf, videoBitrate, audioBitrate, preset, pixelFormat, faststart } = options;
+  const args: string[] = ['-c:v', VIDEO_ENCODERS[videoCodec]];
+
+  switch (videoCodec) {
+    case 'h264':
+    case 'h265':
+      args.push('-preset', preset);
+      if (videoBitrate) {
+        args.push('-b:v', videoBitrate);
+      } else if (crf !== undefined) {
+        args.push('-crf', String(crf));
+      }
+      // Players identify HEVC in MP4/MOV by the hvc1 tag
+      if (videoCodec === 'h265') {
+        args.push('-tag:v', 'hvc1');
+      }
+      break;
+    case 'vp8':
+    case 'vp9':
+      args.push('-cpu-used', String(CPU_USED[preset]));
+      if (crf !== undefined) {
+        // With a bitrate too this is constrained quality; '-b:v 0' makes it pure constant quality
+        args.push('-crf', String(crf), '-b:v', videoBitrate ?? '0');
+      } else if (videoBitrate) {
+        args.push('-b:v', videoBitrate);
+      }
+      // Row-based multithreading; without it VP9 encodes far slower
+      if (videoCodec !== 'vp8') {
+        args.push('-row-mt', '1');
+      }
+      break;
+    case 'prores':
+      args.push('-profile:v', String(PRORES_PROFILES[profile ?? 'default']));
+      break;
+  }
+
+  if (pixelFormat) {
+    args.push('-pix_fmt', pixelFormat);
+  }
+
+  if (audioCodec === 'none') {
+    args.push('-an');
+  } else {
+    args.push('-c:a', AUDIO_ENCODERS[audioCodec]);
+    if (audioBitrate) {
+      args.push('-b:a', audioBitrate);
+    }
+  }
+
+  if (faststart) {
+    args.push('-movflags', '+faststart');
+  }
+
+  return args;
+}
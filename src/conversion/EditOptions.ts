@@ -0,0 +1,123 @@
+/**
+ * Trim, cut and concatenate edits, expressed as segments of the input recordings
+ * and turned into an FFmpeg trim/concat filter graph
+ */
+
+export interface TimeRange {
+  start: number; // Milliseconds from the start of the recording
+  end?: number; // Milliseconds; omit to run to the end of the recording
+}
+
+// One piece of the output: a range of one input, in output order
+export interface EditSegment extends TimeRange {
+  input: number; // Index of the input recording
+}
+
+// What the worker learns about each input before building the filter graph
+export interface EditInputInfo {
+  hasAudio: boolean;
+  width: number;
+  height: number;
+}
+
+function validateRange(range: TimeRange): void {
+  if (!Number.isFinite(range.start) || range.start < 0) {
+    throw new Error('Range start must be a non-negative number of milliseconds');
+  }
+  if (range.end !== undefined && (!Number.isFinite(range.end) || range.end <= range.start)) {
+    throw new Error('Range end must be after its start');
+  }
+}
+
+/**
+ * Keep only the given range
+ */
+export function trimSegments(range: TimeRange): EditSegment[] {
+  validateRange(range);
+  return [{ input: 0, start: range.start, end: range.end }];
+}
+
+/**
+ * Remove the given ranges and keep everything in between; ranges may overlap and be in any order
+ */
+export function cutSegments(ranges: TimeRange[]): EditSegment[] {
+  if (ranges.length === 0) {
+    throw new Error('At least one range to cut is required');
+  }
+  ranges.forEach(validateRange);
+
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const segments: EditSegment[] = [];
+  let keepFrom = 0;
+
+  for (const range of sorted) {
+    if (range.start > keepFrom) {
+      segments.push({ input: 0, start: keepFrom, end: range.start });
+    }
+    // An open-ended cut removes everything after its start
+    if (range.end === undefined) {
+      keepFrom = Infinity;
+      break;
+    }
+    keepFrom = Math.max(keepFrom, range.end);
+  }
+
+  if (keepFrom !== Infinity) {
+    segments.push({ input: 0, start: keepFrom });
+  }
+
+  if (segments.length === 0) {
+    throw new Error('Cutting these ranges would remove the whole recording');
+  }
+  return segments;
+}
+
+/**
+ * Join whole recordings end to end
+ */
+export function concatSegments(inputCount: number): EditSegment[] {
+  if (inputCount < 2) {
+    throw new Error('Concatenation needs at least two recordings');
+  }
+  return Array.from({ length: inputCount }, (_, input) => ({ input, start: 0 }));
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * Build the -filter_complex graph for the segments.
+ * Every segment is trimmed, its timestamps reset, scaled to the first input's size
+ * (concat needs identical frame sizes) and then joined with the concat filter.
+ * Audio is only kept when every input has an audio track.
+ */
+export function buildEditFilter(segments: EditSegment[], inputs: EditInputInfo[]): { filter: string; hasAudio: boolean } {
+  const hasAudio = inputs.every(input => input.hasAudio);
+  const { width, height } = inputs[0];
+  const parts: string[] = [];
+  const labels: string[] = [];
+
+  segments.forEach((segment, index) => {
+    const bounds = segment.end === undefined
+      ? `start=${seconds(segment.start)}`
+      : `start=${seconds(segment.start)}:end=${seconds(segment.end)}`;
+
+    parts.push(
+      `[${segment.input}:v]trim=${bounds},setpts=PTS-STARTPTS,` +
+      `scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+      `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1[v${index}]`
+    );
+    labels.push(`[v${index}]`);
+
+    if (hasAudio) {
+      parts.push(`[${segment.input}:a]atrim=${bounds},asetpts=PTS-STARTPTS[a${index}]`);
+      labels.push(`[a${index}]`);
+    }
+  });
+
+  const outputs = hasAudio ? '[v][a]' : '[v]';
+  parts.push(`${labels.join('')}concat=n=${segments.length}:v=1:a=${hasAudio ? 1 : 0}${outputs}`);
+
+  return { filter: parts.join(';'), hasAudio };
+}
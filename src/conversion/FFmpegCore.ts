@@ -0,0 +1,149 @@
+/**
+ * Where the FFmpeg WASM core is loaded from, and how it is cached for offline use
+ */
+import { openDatabase, requestToPromise } from '../storage/indexedDB';
+
+export const FFMPEG_CORE_VERSION = '0.12.6';
+
+// Public CDNs tried in order when no source is configured
+export const DEFAULT_CORE_BASE_URLS = [
+  `https://unpkg.com/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/esm`,
+  `https://cdn.jsdelivr.net/npm/@ffmpeg/core@${FFMPEG_CORE_VERSION}/dist/esm`
+];
+
+// Path, relative to the page, that `npm run ffmpeg:copy-core` copies the core into
+export const BUNDLED_CORE_PATH = 'ffmpeg/';
+
+export type CoreCacheMode = 'cache-storage' | 'indexeddb' | 'none';
+
+export interface FFmpegCoreOptions {
+  coreURL?: string; // Explicit ffmpeg-core.js URL, tried first
+  wasmURL?: string; // Explicit ffmpeg-core.wasm URL, tried first
+  workerURL?: string; // ffmpeg-core.worker.js, only for the multi-threaded core
+  baseURLs?: string[]; // Directories holding ffmpeg-core.js/.wasm, tried in order
+  bundled?: boolean | string; // Load from the app's own assets; true uses BUNDLED_CORE_PATH, a string overrides it
+  multiThread?: boolean; // Base URLs hold @ffmpeg/core-mt, so also load ffmpeg-core.worker.js from them
+  cache?: CoreCacheMode; // Default: 'cache-storage'
+}
+
+// One place to load the core from; every URL is absolute
+export interface CoreCandidate {
+  coreURL: string;
+  wasmURL: string;
+  workerURL?: string;
+}
+
+export interface ResolvedCoreOptions {
+  candidates: CoreCandidate[];
+  cache: CoreCacheMode;
+}
+
+const CACHE_NAME = `canvas-recorder-ffmpeg-core-${FFMPEG_CORE_VERSION}`;
+const DB_NAME = 'canvas-recorder-ffmpeg-core';
+const DB_STORE = 'files';
+
+/**
+ * Turn the options into an ordered list of absolute candidate URLs.
+ * Runs on the main thread so relative URLs resolve against the page, not the worker script.
+ */
+export function resolveCoreOptions(options: FFmpegCoreOptions = {}, baseURI: string): ResolvedCoreOptions {
+  const absolute = (url: string) => new URL(url, baseURI).href;
+  const fromBase = (base: string): CoreCandidate => {
+    const dir = absolute(base.endsWith('/') ? base : `${base}/`);
+    return {
+      coreURL: `${dir}ffmpeg-core.js`,
+      wasmURL: `${dir}ffmpeg-core.wasm`,
+      workerURL: options.multiThread ? `${dir}ffmpeg-core.worker.js` : undefined
+    };
+  };
+
+  const candidates: CoreCandidate[] = [];
+
+  if (options.coreURL || options.wasmURL) {
+    if (!options.coreURL || !options.wasmURL) {
+      throw new Error('coreURL and wasmURL must be set together');
+    }
+    candidates.push({
+      coreURL: absolute(options.coreURL),
+      wasmURL: absolute(options.wasmURL),
+      workerURL: options.workerURL ? absolute(options.workerURL) : undefined
+    });
+  }
+
+  if (options.bundled) {
+    candidates.push(fromBase(typeof options.bundled === 'string' ? options.bundled : BUNDLED_CORE_PATH));
+  }
+
+  candidates.push(...(options.baseURLs ?? []).map(fromBase));
+
+  // Only reach out to a public CDN when nothing was configured, so air-gapped setups never do
+  if (candidates.length === 0) {
+    candidates.push(...DEFAULT_CORE_BASE_URLS.map(fromBase));
+  }
+
+  return { candidates, cache: options.cache ?? 'cache-storage' };
+}
+
+/**
+ * Fetch one core file and return a blob URL for it, going through the cache first
+ */
+export async function loadCoreFile(url: string, mimeType: string, cache: CoreCacheMode): Promise<string> {
+  let blob = await readCachedFile(url, cache);
+
+  if (!blob) {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${url}: HTTP ${response.status}`);
+    }
+    blob = await response.blob();
+    await writeCachedFile(url, blob, cache);
+  }
+
+  // The core is loaded with importScripts/instantiate, which need the right MIME type
+  return URL.createObjectURL(new Blob([blob], { type: mimeType }));
+}
+
+async function readCachedFile(url: string, cache: CoreCacheMode): Promise<Blob | null> {
+  try {
+    if (cache === 'cache-storage' && typeof caches !== 'undefined') {
+      const response = await (await caches.open(CACHE_NAME)).match(url);
+      return response ? await response.blob() : null;
+    }
+    if (cache === 'indexeddb' && typeof indexedDB !== 'undefined') {
+      const db = await openCoreDatabase();
+      try {
+        return await requestToPromise<Blob | undefined>(
+          db.transaction(DB_STORE, 'readonly').objectStore(DB_STORE).get(url)
+        ) ?? null;
+      } finally {
+        db.close();
+      }
+    }
+  } catch (error) {
+    // A broken cache shouldn't stop the core loading from the network
+    console.warn('Failed to read cached FFmpeg core file:', error);
+  }
+  return null;
+}
+
+async function writeCachedFile(url: string, blob: Blob, cache: CoreCacheMode): Promise<void> {
+  try {
+    if (cache === 'cache-storage' && typeof caches !== 'undefined') {
+      await (await caches.open(CACHE_NAME)).put(url, new Response(blob));
+    } else if (cache === 'indexeddb' && typeof indexedDB !== 'undefined') {
+      const db = await openCoreDatabase();
+      try {
+        await requestToPromise(db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE).put(blob, url));
+      } finally {
+        db.close();
+      }
+    }
+  } catch (error) {
+    // Quota errors and private browsing modes only cost us offline support
+    console.warn('Failed to cache FFmpeg core file:', error);
+  }
+}
+
+function openCoreDatabase(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, 1, db => db.createObjectStore(DB_STORE));
+}
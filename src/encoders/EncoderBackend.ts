@@ -0,0 +1,199 @@
+/**
+ * Pluggable encoder backends for CanvasRecorder
+ */
+import type { AudioCodec, VideoCodec, VideoContainer } from '../muxers/Muxer';
+import { AUDIO_BITRATE, AUDIO_CHANNELS, AUDIO_CODEC_STRINGS, AUDIO_SAMPLE_RATE } from './WebCodecsAudioEncoder';
+
+export type { AudioCodec, VideoCodec, VideoContainer };
+
+export type EncoderBackendType = 'mediarecorder' | 'webcodecs';
+
+// 'realtime' captures frames as they are drawn; 'step' captures exactly one frame per captureFrame() call
+export type CaptureMode = 'realtime' | 'step';
+
+export interface EncoderBackendOptions {
+  canvas: HTMLCanvasElement; // Canvas to encode (the watermark canvas when compositing)
+  fps: number;
+  videoBitsPerSecond: number;
+  mode: CaptureMode;
+  audio?: MediaStream; // Mixed audio to record alongside the canvas (realtime mode only)
+  onData: (chunk: Blob) => void; // Receives encoded output in order as it becomes available
+}
+
+export interface EncoderBackend {
+  readonly type: EncoderBackendType;
+  readonly mimeType: string;
+  readonly state: RecordingState;
+  start(): Promise<void>;
+  captureFrame(timestamp: number): Promise<void>; // Timestamp in milliseconds from the start of the recording
+  pause(): void;
+  resume(): void;
+  stop(): Promise<void>;
+}
+
+export interface EncoderSupport {
+  backend: EncoderBackendType;
+  container: VideoContainer;
+  codec?: VideoCodec; // Unknown when MediaRecorder picks the codec itself
+  codecString?: string; // WebCodecs codec string, only set for the WebCodecs backend
+  audioCodec?: AudioCodec; // Only set by WebCodecs when audio was requested
+  mimeType: string;
+}
+
+export interface EncoderProbeOptions {
+  backend?: EncoderBackendType | 'auto';
+  container?: VideoContainer;
+  codec?: VideoCodec;
+  width?: number;
+  height?: number;
+  fps?: number;
+  videoBitsPerSecond?: number;
+  audio?: boolean; // Only return results that can also record an audio track
+}
+
+// Codec preference per container for the WebCodecs backend
+const WEBCODECS_CODECS: Record<VideoContainer, VideoCodec[]> = {
+  webm: ['vp9', 'vp8', 'av1'],
+  mp4: ['h264', 'av1', 'vp9']
+};
+
+// Audio codec preference per container for the WebCodecs backend
+const WEBCODECS_AUDIO_CODECS: Record<VideoContainer, AudioCodec[]> = {
+  webm: ['opus'],
+  mp4: ['aac', 'opus']
+};
+
+// MediaRecorder candidates, best quality first, with the variant used when recording audio too
+const MEDIARECORDER_TYPES: { mimeType: string; audioMimeType: string; container: VideoContainer; codec?: VideoCodec }[] = [
+  { mimeType: 'video/webm;codecs=vp9', audioMimeType: 'video/webm;codecs=vp9,opus', container: 'webm', codec: 'vp9' }, // Best quality codec
+  { mimeType: 'video/webm;codecs=vp8', audioMimeType: 'video/webm;codecs=vp8,opus', container: 'webm', codec: 'vp8' },
+  { mimeType: 'video/webm', audioMimeType: 'video/webm', container: 'webm' },
+  { mimeType: 'video/mp4;codecs=avc1', audioMimeType: 'video/mp4;codecs=avc1,mp4a.40.2', container: 'mp4', codec: 'h264' },
+  { mimeType: 'video/mp4', audioMimeType: 'video/mp4', container: 'mp4' }
+];
+
+export function getCodecString(codec: VideoCodec, width: number, height: number): string {
+  switch (codec) {
+    case 'h264': {
+      // High profile, with the level picked from the frame size in macroblocks (3.1, 4.0, 5.1, 6.0)
+      const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+      const level = macroblocks <= 3600 ? 0x1f : macroblocks <= 8192 ? 0x28 : macroblocks <= 36864 ? 0x33 : 0x3c;
+      return `avc1.6400${level.toString(16).padStart(2, '0')}`;
+    }
+    case 'vp8':
+      return 'vp8';
+    case 'vp9':
+      return 'vp09.00.10.08';
+    case 'av1':
+    default:
+      return 'av01.0.08M.08';
+  }
+}
+
+async function probeWebCodecsAudio(container: VideoContainer): Promise<AudioCodec | null> {
+  if (typeof AudioEncoder === 'undefined' || typeof AudioData === 'undefined') return null;
+
+  for (const codec of WEBCODECS_AUDIO_CODECS[container]) {
+    try {
+      const { supported } = await AudioEncoder.isConfigSupported({
+        codec: AUDIO_CODEC_STRINGS[codec],
+        sampleRate: AUDIO_SAMPLE_RATE,
+        numberOfChannels: AUDIO_CHANNELS,
+        bitrate: AUDIO_BITRATE
+      });
+      if (supported) return codec;
+    } catch {
+      // Unknown codec strings throw instead of reporting unsupported
+    }
+  }
+
+  return null;
+}
+
+async function probeWebCodecs(options: EncoderProbeOptions): Promise<EncoderSupport[]> {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return [];
+
+  const {
+    width = 1920,
+    height = 1080,
+    fps = 30,
+    videoBitsPerSecond = 5000000
+  } = options;
+
+  const containers: VideoContainer[] = options.container ? [options.container] : ['webm', 'mp4'];
+  const results: EncoderSupport[] = [];
+
+  for (const container of containers) {
+    const codecs = WEBCODECS_CODECS[container].filter(codec => !options.codec || codec === options.codec);
+
+    let audioCodec: AudioCodec | undefined;
+    if (options.audio) {
+      const supportedAudio = await probeWebCodecsAudio(container);
+      if (!supportedAudio) continue;
+      audioCodec = supportedAudio;
+    }
+
+    for (const codec of codecs) {
+      const codecString = getCodecString(codec, width, height);
+      try {
+        const { supported } = await VideoEncoder.isConfigSupported({
+          codec: codecString,
+          width,
+          height,
+          bitrate: videoBitsPerSecond,
+          framerate: fps
+        });
+        if (supported) {
+          results.push({
+            backend: 'webcodecs',
+            container,
+            codec,
+            codecString,
+            audioCodec,
+            mimeType: audioCodec
+              ? `video/${container};codecs=${codecString},${AUDIO_CODEC_STRINGS[audioCodec]}`
+              : `video/${container};codecs=${codecString}`
+          });
+        }
+      } catch {
+        // Invalid or unknown codec strings throw instead of reporting unsupported
+      }
+    }
+  }
+
+  return results;
+}
+
+function probeMediaRecorder(options: EncoderProbeOptions): EncoderSupport[] {
+  if (typeof MediaRecorder === 'undefined') return [];
+
+  return MEDIARECORDER_TYPES
+    .filter(type => !options.container || type.container === options.container)
+    .filter(type => !options.codec || type.codec === options.codec)
+    .map(type => ({ ...type, mimeType: options.audio ? type.audioMimeType : type.mimeType }))
+    .filter(type => MediaRecorder.isTypeSupported(type.mimeType))
+    .map(type => ({
+      backend: 'mediarecorder' as const,
+      container: type.container,
+      codec: type.codec,
+      mimeType: type.mimeType
+    }));
+}
+
+/**
+ * List every backend/container/codec combination this browser can record, best first.
+ * WebCodecs results come before MediaRecorder ones, which are the fallback.
+ */
+export async function probeEncoderSupport(options: EncoderProbeOptions = {}): Promise<EncoderSupport[]> {
+  const backend = options.backend ?? 'auto';
+  const results: EncoderSupport[] = [];
+
+  if (backend === 'auto' || backend === 'webcodecs') {
+    results.push(...await probeWebCodecs(options));
+  }
+  if (backend === 'auto' || backend === 'mediarecorder') {
+    results.push(...probeMediaRecorder(options));
+  }
+
+  return results;
+}
@@ -0,0 +1,99 @@
+/**
+ * MediaRecorder encoder backend
+ * Works in every browser with MediaRecorder; the container and codec are whatever the browser supports
+ */
+import { EncoderBackend, EncoderBackendOptions } from './EncoderBackend';
+
+export class MediaRecorderBackend implements EncoderBackend {
+  readonly type = 'mediarecorder' as const;
+  private requestedMimeType: string;
+  private options: EncoderBackendOptions;
+  private mediaRecorder: MediaRecorder | null = null;
+  private track: CanvasCaptureMediaStreamTrack | null = null;
+
+  constructor(options: EncoderBackendOptions, mimeType: string) {
+    this.options = options;
+    this.requestedMimeType = mimeType;
+  }
+
+  // What the recorder actually produces, which may spell out codecs the requested type left open
+  get mimeType(): string {
+    return this.mediaRecorder?.mimeType || this.requestedMimeType;
+  }
+
+  get state(): RecordingState {
+    return this.mediaRecorder?.state ?? 'inactive';
+  }
+
+  async start(): Promise<void> {
+    const { canvas, fps, videoBitsPerSecond, mode, audio, onData } = this.options;
+
+    // In step mode a frame rate of 0 means the stream only emits a frame when requestFrame() is called
+    const canvasStream = canvas.captureStream(mode === 'step' ? 0 : fps);
+    this.track = canvasStream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+
+    // Audio would be chopped into frame-sized slices in step mode, so it is only recorded in realtime
+    const stream = audio && mode === 'realtime'
+      ? new MediaStream([this.track, ...audio.getAudioTracks()])
+      : canvasStream;
+
+    // Create MediaRecorder with quality settings
+    const recorderOptions: MediaRecorderOptions = {
+      mimeType: this.requestedMimeType,
+      videoBitsPerSecond
+    };
+
+    this.mediaRecorder = new MediaRecorder(stream, recorderOptions);
+
+    this.mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        onData(event.data);
+      }
+    };
+
+    this.mediaRecorder.start(100); // Collect data every 100ms
+
+    // Step mode keeps the recorder paused between frames so render time never reaches the timeline
+    if (mode === 'step') {
+      this.mediaRecorder.pause();
+    }
+  }
+
+  async captureFrame(_timestamp: number): Promise<void> {
+    // In realtime mode captureStream() delivers frames on its own
+    if (this.options.mode !== 'step' || !this.mediaRecorder || !this.track) return;
+
+    // MediaRecorder stamps frames with wall-clock time, so resume for exactly one frame interval
+    this.mediaRecorder.resume();
+    this.track.requestFrame();
+    await new Promise((resolve) => setTimeout(resolve, 1000 / this.options.fps));
+    this.mediaRecorder.pause();
+  }
+
+  pause(): void {
+    if (this.mediaRecorder?.state === 'recording') {
+      this.mediaRecorder.pause();
+    }
+  }
+
+  resume(): void {
+    if (this.mediaRecorder?.state === 'paused') {
+      this.mediaRecorder.resume();
+    }
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (!this.mediaRecorder || this.mediaRecorder.state === 'inactive') {
+        reject(new Error('No active recording'));
+        return;
+      }
+
+      this.mediaRecorder.onstop = () => resolve();
+      this.mediaRecorder.stop();
+
+      // Stop the canvas track; audio tracks belong to the caller's mixer
+      this.track?.stop();
+    });
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Audio half of the WebCodecs backend
+ * Pulls PCM out of an audio MediaStream with an AudioWorklet and encodes it with AudioEncoder
+ */
+import type { AudioCodec } from '../muxers/Muxer';
+
+export const AUDIO_SAMPLE_RATE = 48000;
+export const AUDIO_CHANNELS = 2;
+export const AUDIO_BITRATE = 128000;
+
+export const AUDIO_CODEC_STRINGS: Record<AudioCodec, string> = {
+  aac: 'mp4a.40.2', // AAC-LC
+  opus: 'opus'
+};
+
+// Posts every render quantum of the input back to the main thread
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const input = inputs[0];
+    if (input && input.length > 0) {
+      this.port.postMessage(input.map(channel => channel.slice()));
+    }
+    return true;
+  }
+}
+registerProcessor('canvas-recorder-pcm-capture', PcmCaptureProcessor);
+`;
+
+export class WebCodecsAudioEncoder {
+  private stream: MediaStream;
+  private codec: AudioCodec;
+  private onChunk: (chunk: EncodedAudioChunk) => void;
+  private context: AudioContext | null = null;
+  private sourceNode: MediaStreamAudioSourceNode | null = null;
+  private workletNode: AudioWorkletNode | null = null;
+  private encoder: AudioEncoder | null = null;
+  private framesEncoded: number = 0;
+  private paused: boolean = false;
+  private encoderError: Error | null = null;
+
+  constructor(stream: MediaStream, codec: AudioCodec, onChunk: (chunk: EncodedAudioChunk) => void) {
+    this.stream = stream;
+    this.codec = codec;
+    this.onChunk = onChunk;
+  }
+
+  async start(): Promise<void> {
+    this.encoder = new AudioEncoder({
+      output: (chunk) => this.onChunk(chunk),
+      error: (error) => {
+        this.encoderError = error;
+      }
+    });
+
+    this.encoder.configure({
+      codec: AUDIO_CODEC_STRINGS[this.codec],
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfChannels: AUDIO_CHANNELS,
+      bitrate: AUDIO_BITRATE
+    });
+
+    // A dedicated context at the encoder's sample rate avoids resampling the PCM ourselves
+    this.context = new AudioContext({ sampleRate: AUDIO_SAMPLE_RATE });
+    if (this.context.state === 'suspended') {
+      await this.context.resume();
+    }
+
+    const moduleURL = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'text/javascript' }));
+    try {
+      await this.context.audioWorklet.addModule(moduleURL);
+    } finally {
+      URL.revokeObjectURL(moduleURL);
+    }
+
+    this.sourceNode = this.context.createMediaStreamSource(this.stream);
+    this.workletNode = new AudioWorkletNode(this.context, 'canvas-recorder-pcm-capture', {
+      numberOfInputs: 1,
+      numberOfOutputs: 0,
+      channelCount: AUDIO_CHANNELS,
+      channelCountMode: 'explicit' // Up-mix mono sources so every buffer has the same layout
+    });
+    this.workletNode.port.onmessage = (event: MessageEvent<Float32Array[]>) => this.encode(event.data);
+    this.sourceNode.connect(this.workletNode);
+
+    this.framesEncoded = 0;
+    this.paused = false;
+    this.encoderError = null;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+  }
+
+  async stop(): Promise<void> {
+    this.sourceNode?.disconnect();
+    if (this.workletNode) {
+      this.workletNode.port.onmessage = null;
+    }
+    this.sourceNode = null;
+    this.workletNode = null;
+
+    try {
+      if (this.encoder?.state === 'configured') {
+        await this.encoder.flush();
+      }
+    } finally {
+      if (this.encoder && this.encoder.state !== 'closed') {
+        this.encoder.close();
+      }
+      this.encoder = null;
+      await this.context?.close();
+      this.context = null;
+    }
+
+    if (this.encoderError) {
+      throw this.encoderError;
+    }
+  }
+
+  private encode(channels: Float32Array[]): void {
+    // Dropping audio while paused keeps its timeline aligned with the paused-out video
+    if (this.paused || !this.encoder || this.encoder.state !== 'configured' || this.encoderError) return;
+
+    const numberOfFrames = channels[0].length;
+    const data = new Float32Array(numberOfFrames * AUDIO_CHANNELS);
+    for (let channel = 0; channel < AUDIO_CHANNELS; channel++) {
+      data.set(channels[channel] ?? channels[0], channel * numberOfFrames);
+    }
+
+    // Timestamps count encoded samples, so paused time never appears in the audio track
+    const audioData = new AudioData({
+      format: 'f32-planar',
+      sampleRate: AUDIO_SAMPLE_RATE,
+      numberOfFrames,
+      numberOfChannels: AUDIO_CHANNELS,
+      timestamp: Math.round((this.framesEncoded * 1000000) / AUDIO_SAMPLE_RATE),
+      data
+    });
+
+    this.encoder.encode(audioData);
+    audioData.close();
+    this.framesEncoded += numberOfFrames;
+  }
+}
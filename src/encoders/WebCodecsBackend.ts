@@ -0,0 +1,182 @@
+/**
+ * WebCodecs encoder backend
+ * Encodes canvas frames with VideoEncoder and muxes them straight into MP4 or WebM,
+ * so no FFmpeg pass is needed to get an MP4
+ */
+import { Mp4Muxer } from '../muxers/Mp4Muxer';
+import { Muxer } from '../muxers/Muxer';
+import { WebmMuxer } from '../muxers/WebmMuxer';
+import { EncoderBackend, EncoderBackendOptions, EncoderSupport } from './EncoderBackend';
+import { AUDIO_CHANNELS, AUDIO_SAMPLE_RATE, WebCodecsAudioEncoder } from './WebCodecsAudioEncoder';
+
+// Frames allowed to wait in the encoder queue before realtime capture starts dropping them
+const MAX_REALTIME_QUEUE = 4;
+
+export class WebCodecsBackend implements EncoderBackend {
+  readonly type = 'webcodecs' as const;
+  readonly mimeType: string;
+  private options: EncoderBackendOptions;
+  private support: EncoderSupport;
+  private encoder: VideoEncoder | null = null;
+  private muxer: Muxer | null = null;
+  private audioEncoder: WebCodecsAudioEncoder | null = null;
+  private currentState: RecordingState = 'inactive';
+  private frameIndex: number = 0;
+  private nextFrameTime: number = 0;
+  private encoderError: Error | null = null;
+
+  constructor(options: EncoderBackendOptions, support: EncoderSupport) {
+    if (!support.codec || !support.codecString) {
+      throw new Error('WebCodecs backend requires a codec');
+    }
+    this.options = options;
+    this.support = support;
+    this.mimeType = support.mimeType;
+  }
+
+  get state(): RecordingState {
+    return this.currentState;
+  }
+
+  async start(): Promise<void> {
+    const { canvas, fps, videoBitsPerSecond, mode, audio } = this.options;
+    const codec = this.support.codec!;
+    const codecString = this.support.codecString!;
+    const audioCodec = this.support.audioCodec;
+
+    // Audio would be chopped into frame-sized slices in step mode, so it is only recorded in realtime
+    const recordAudio = !!audio && !!audioCodec && mode === 'realtime';
+
+    const muxerOptions = {
+      codec,
+      codecString,
+      width: canvas.width,
+      height: canvas.height,
+      fps,
+      audio: recordAudio
+        ? { codec: audioCodec!, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: AUDIO_CHANNELS }
+        : undefined,
+      onData: (data: Uint8Array<ArrayBuffer>) => this.options.onData(new Blob([data]))
+    };
+    this.muxer = this.support.container === 'mp4' ? new Mp4Muxer(muxerOptions) : new WebmMuxer(muxerOptions);
+
+    this.encoder = new VideoEncoder({
+      output: (chunk, metadata) => {
+        try {
+          this.muxer?.addVideoChunk(chunk, metadata);
+        } catch (error) {
+          this.encoderError = error instanceof Error ? error : new Error('Failed to mux video chunk');
+        }
+      },
+      error: (error) => {
+        this.encoderError = error;
+      }
+    });
+
+    const config: VideoEncoderConfig = {
+      codec: codecString,
+      width: canvas.width,
+      height: canvas.height,
+      bitrate: videoBitsPerSecond,
+      framerate: fps,
+      latencyMode: 'quality'
+    };
+
+    // MP4 needs an avcC decoder configuration rather than Annex B start codes
+    if (codec === 'h264') {
+      config.avc = { format: 'avc' };
+    }
+
+    this.encoder.configure(config);
+
+    if (recordAudio) {
+      this.audioEncoder = new WebCodecsAudioEncoder(audio!, audioCodec!, (chunk) => {
+        try {
+          this.muxer?.addAudioChunk(chunk);
+        } catch (error) {
+          this.encoderError = error instanceof Error ? error : new Error('Failed to mux audio chunk');
+        }
+      });
+      await this.audioEncoder.start();
+    }
+
+    this.frameIndex = 0;
+    this.nextFrameTime = 0;
+    this.encoderError = null;
+    this.currentState = 'recording';
+  }
+
+  async captureFrame(timestamp: number): Promise<void> {
+    if (!this.encoder || this.currentState !== 'recording' || this.encoderError) return;
+
+    const { canvas, fps, mode } = this.options;
+    const frameDuration = 1000 / fps;
+
+    if (mode === 'realtime') {
+      // The render loop runs at display rate; only encode at the requested frame rate
+      if (timestamp < this.nextFrameTime) return;
+      this.nextFrameTime = Math.max(this.nextFrameTime + frameDuration, timestamp);
+
+      // Drop frames rather than queue them without bound when the encoder can't keep up
+      if (this.encoder.encodeQueueSize > MAX_REALTIME_QUEUE) return;
+    } else {
+      // Step mode never drops frames; wait for the encoder to catch up instead
+      while (this.encoder.encodeQueueSize > MAX_REALTIME_QUEUE) {
+        await new Promise((resolve) => this.encoder!.addEventListener('dequeue', resolve, { once: true }));
+      }
+    }
+
+    // VideoFrame timestamps are in microseconds
+    const frame = new VideoFrame(canvas, {
+      timestamp: Math.round(timestamp * 1000),
+      duration: Math.round(frameDuration * 1000)
+    });
+
+    // Keyframe every two seconds so fragments and clusters stay small and seekable
+    const keyFrame = this.frameIndex % Math.max(1, Math.round(fps * 2)) === 0;
+    this.encoder.encode(frame, { keyFrame });
+    frame.close();
+    this.frameIndex++;
+  }
+
+  pause(): void {
+    if (this.currentState === 'recording') {
+      this.currentState = 'paused';
+      this.audioEncoder?.pause();
+    }
+  }
+
+  resume(): void {
+    if (this.currentState === 'paused') {
+      this.currentState = 'recording';
+      this.audioEncoder?.resume();
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (!this.encoder || this.currentState === 'inactive') {
+      throw new Error('No active recording');
+    }
+
+    this.currentState = 'inactive';
+
+    try {
+      await this.audioEncoder?.stop();
+      if (this.encoder.state === 'configured') {
+        await this.encoder.flush();
+      }
+      this.muxer?.finalize();
+    } finally {
+      if (this.encoder.state !== 'closed') {
+        this.encoder.close();
+      }
+      this.encoder = null;
+      this.audioEncoder = null;
+      this.muxer = null;
+    }
+
+    if (this.encoderError) {
+      throw this.encoderError;
+    }
+  }
+}
@@ -0,0 +1,438 @@
+/**
+ * Invisible forensic watermark: a short payload (digests of the user and session IDs, recording time)
+ * hidden in the brightness of a grid of soft-edged cells, repeated across the frame and in every frame,
+ * and read back from a recording or a converted copy of it with extractWatermark()
+ *
+ * Each cell's weighted mean brightness is nudged onto one of two interleaved lattices (quantization
+ * index modulation), one per bit value. Cell means are what video codecs preserve best, and reading
+ * needs no copy of the original. The grid is relative to the frame, so scaled copies still decode.
+ */
+
+export interface ForensicWatermarkOptions {
+  userId: string; // Any length; the mark holds a 104-bit digest of it, see forensicIdDigest()
+  sessionId?: string; // Any length, default ''
+  key?: string; // Scrambles where the bits go; extraction needs the same key. Default: 'canvas-recorder'
+  strength?: number; // Brightness step of the lattices, default 6; higher survives lower bitrates, lower is less visible
+}
+
+export interface ExtractOptions {
+  key?: string; // As used for recording
+  strength?: number; // As used for recording
+  frames?: number; // Frames sampled evenly across the video, default 40
+  userIds?: string[]; // Candidates for the user ID, e.g. everyone the video was sent to; matched by digest
+  sessionIds?: string[]; // Candidates for the session ID
+  signal?: AbortSignal;
+}
+
+export interface ExtractedWatermark {
+  userId: string | null; // The candidate from userIds whose digest matches; null when none does
+  sessionId: string | null; // Likewise from sessionIds
+  userDigest: string; // Hex digest of the user ID, to look up among forensicIdDigest() values of known IDs
+  sessionDigest: string;
+  timestamp: number; // Recording start in ms since the epoch, to the second
+  confidence: number; // 0-1, how clearly the bits read; low values suggest heavy re-encoding
+  framesRead: number;
+}
+
+interface CellGrid {
+  width: number;
+  height: number;
+  cellOfX: Uint16Array;
+  cellOfY: Uint16Array;
+  weightX: Float32Array; // Raised cosine within each cell, so the cells have no visible edges
+  weightY: Float32Array;
+  weightSum: Float64Array;
+  weightSquareSum: Float64Array;
+}
+
+interface Keying {
+  bitOfCell: Uint16Array;
+  dither: Float64Array;
+}
+
+const COLUMNS = 48;
+const ROWS = 27;
+const CELLS = COLUMNS * ROWS;
+const VERSION = 2;
+const DIGEST_BYTES = 13; // Truncated SHA-256 of each ID; 104 bits leave no realistic chance of two IDs matching
+const PAYLOAD_BYTES = 5 + 2 * DIGEST_BYTES; // Version, timestamp and the two digests; a CRC-32 follows
+const PAYLOAD_BITS = (PAYLOAD_BYTES + 4) * 8;
+const DEFAULT_KEY = 'canvas-recorder';
+const DEFAULT_STRENGTH = 6;
+
+export class ForensicWatermark {
+  private options: ForensicWatermarkOptions;
+  private keying: Keying;
+  private step: number;
+  private bits: Uint8Array | null = null;
+  private grid: CellGrid | null = null;
+  private digests: Uint8Array[] | null = null;
+  private loading: Promise<void> | null = null;
+
+  constructor(options: ForensicWatermarkOptions) {
+    if (!options.userId) {
+      throw new Error('A forensic watermark needs a userId');
+    }
+    if (options.strength !== undefined && (!Number.isFinite(options.strength) || options.strength <= 0)) {
+      throw new Error('Forensic watermark strength must be a positive number');
+    }
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new Error('Forensic watermarks need Web Crypto, which browsers only offer on HTTPS or localhost');
+    }
+
+    this.options = options;
+    this.step = options.strength ?? DEFAULT_STRENGTH;
+    this.keying = createKeying(options.key ?? DEFAULT_KEY, this.step);
+  }
+
+  /**
+   * Hash the IDs; later calls reuse the first result
+   */
+  load(): Promise<void> {
+    this.loading ??= Promise.all([idDigest(this.options.userId), idDigest(this.options.sessionId ?? '')]).then((digests) => {
+      this.digests = digests;
+    });
+    return this.loading;
+  }
+
+  /**
+   * Set the payload for a recording that started at timestamp (ms since the epoch), once load() has finished
+   */
+  begin(timestamp: number): void {
+    if (!this.digests) {
+      throw new Error('ForensicWatermark.load() must finish before begin()');
+    }
+    this.bits = toBits(encodePayload(this.digests[0], this.digests[1], timestamp));
+  }
+
+  /**
+   * Embed the payload into the frame drawn on ctx. Reads the frame back and rewrites it, which takes
+   * tens of milliseconds at 1080p.
+   */
+  apply(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const bits = this.bits;
+    if (!bits || width < COLUMNS || height < ROWS) return;
+
+    if (!this.grid || this.grid.width !== width || this.grid.height !== height) {
+      this.grid = createGrid(width, height);
+    }
+    const grid = this.grid;
+    const image = ctx.getImageData(0, 0, width, height);
+    const data = image.data;
+    const step = this.step;
+    const { bitOfCell, dither } = this.keying;
+
+    // Move each cell's mean to the nearest lattice point for its bit, staying clear of black and white
+    const means = measureCells(data, grid);
+    const offsets = new Float64Array(CELLS);
+    for (let cell = 0; cell < CELLS; cell++) {
+      const base = dither[cell] + (bits[bitOfCell[cell]] * step) / 2;
+      let target = base + Math.round((means[cell] - base) / step) * step;
+      if (target > 255 - step / 4) {
+        target -= step;
+      } else if (target < step / 4) {
+        target += step;
+      }
+      // Scaled up because the soft-edged offset moves the weighted mean by less than its peak
+      offsets[cell] = ((target - means[cell]) * grid.weightSum[cell]) / grid.weightSquareSum[cell];
+    }
+
+    // The same offset on all three channels changes brightness only
+    for (let y = 0; y < height; y++) {
+      const rowCell = grid.cellOfY[y] * COLUMNS;
+      const weightY = grid.weightY[y];
+      let index = y * width * 4;
+      for (let x = 0; x < width; x++, index += 4) {
+        const offset = offsets[rowCell + grid.cellOfX[x]] * grid.weightX[x] * weightY;
+        data[index] += offset;
+        data[index + 1] += offset;
+        data[index + 2] += offset;
+      }
+    }
+
+    ctx.putImageData(image, 0, 0);
+  }
+}
+
+/**
+ * Read a forensic watermark from a recording, including copies converted or re-encoded with FFmpeg.
+ * Resolves null when no watermark made with this key and strength is found.
+ */
+export async function extractWatermark(videoBlob: Blob, options: ExtractOptions = {}): Promise<ExtractedWatermark | null> {
+  const frames = options.frames ?? 40;
+  if (!Number.isInteger(frames) || frames <= 0) {
+    throw new Error('frames must be a positive integer');
+  }
+  const step = options.strength ?? DEFAULT_STRENGTH;
+  const { bitOfCell, dither } = createKeying(options.key ?? DEFAULT_KEY, step);
+
+  const url = URL.createObjectURL(videoBlob);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+
+  try {
+    await waitForVideo(video, 'loadeddata');
+    const duration = await videoDuration(video);
+    const { videoWidth: width, videoHeight: height } = video;
+    if (width < COLUMNS || height < ROWS) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error('Failed to get 2D context for watermark extraction');
+    }
+    const grid = createGrid(width, height);
+
+    // Soft votes: +1 for a cell squarely on the 0 lattice, -1 on the 1 lattice
+    const votes = new Float64Array(PAYLOAD_BITS);
+    const voteCounts = new Uint32Array(PAYLOAD_BITS);
+    for (let frame = 0; frame < frames; frame++) {
+      options.signal?.throwIfAborted();
+
+      video.currentTime = ((frame + 0.5) / frames) * duration;
+      await waitForVideo(video, 'seeked');
+      ctx.drawImage(video, 0, 0, width, height);
+
+      const means = measureCells(ctx.getImageData(0, 0, width, height).data, grid);
+      for (let cell = 0; cell < CELLS; cell++) {
+        const bit = bitOfCell[cell];
+        votes[bit] += Math.cos((2 * Math.PI * (means[cell] - dither[cell])) / step);
+        voteCounts[bit]++;
+      }
+    }
+
+    const bits = new Uint8Array(PAYLOAD_BITS);
+    let clarity = 0;
+    for (let bit = 0; bit < PAYLOAD_BITS; bit++) {
+      bits[bit] = votes[bit] < 0 ? 1 : 0;
+      clarity += Math.abs(votes[bit]) / voteCounts[bit];
+    }
+
+    const payload = decodePayload(fromBits(bits));
+    if (!payload) return null;
+
+    return {
+      userId: await findCandidate(options.userIds, payload.userDigest),
+      sessionId: await findCandidate(options.sessionIds, payload.sessionDigest),
+      ...payload,
+      confidence: clarity / PAYLOAD_BITS,
+      framesRead: frames
+    };
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Hex digest of an ID as a forensic watermark stores it, for matching extracted digests against known IDs
+ */
+export async function forensicIdDigest(id: string): Promise<string> {
+  return toHex(await idDigest(id));
+}
+
+function idDigest(id: string): Promise<Uint8Array> {
+  return crypto.subtle.digest('SHA-256', new TextEncoder().encode(id))
+    .then(hash => new Uint8Array(hash, 0, DIGEST_BYTES));
+}
+
+async function findCandidate(candidates: string[] | undefined, digest: string): Promise<string | null> {
+  for (const candidate of candidates ?? []) {
+    if (await forensicIdDigest(candidate) === digest) return candidate;
+  }
+  return null;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function waitForVideo(video: HTMLVideoElement, event: 'loadeddata' | 'seeked'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      video.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      video.removeEventListener(event, onEvent);
+      reject(new Error('Failed to decode the video for watermark extraction'));
+    };
+    video.addEventListener(event, onEvent, { once: true });
+    video.addEventListener('error', onError, { once: true });
+  });
+}
+
+// MediaRecorder WebM may have no duration; seeking far past the end makes the browser find it
+async function videoDuration(video: HTMLVideoElement): Promise<number> {
+  if (Number.isFinite(video.duration)) return video.duration;
+
+  video.currentTime = Number.MAX_SAFE_INTEGER;
+  await waitForVideo(video, 'seeked');
+  if (!Number.isFinite(video.duration)) {
+    throw new Error('Could not determine the video duration for watermark extraction');
+  }
+  return video.duration;
+}
+
+function createGrid(width: number, height: number): CellGrid {
+  const axis = (size: number, cells: number) => {
+    const cellOf = new Uint16Array(size);
+    const weight = new Float32Array(size);
+    const sums = new Float64Array(cells);
+    const squareSums = new Float64Array(cells);
+    // Pixel centers in cell units, so a scaled copy samples the same weights at its own resolution
+    for (let i = 0; i < size; i++) {
+      const position = ((i + 0.5) * cells) / size;
+      const cell = Math.min(Math.floor(position), cells - 1);
+      const w = Math.sin(Math.PI * (position - cell)) ** 2;
+      cellOf[i] = cell;
+      weight[i] = w;
+      sums[cell] += w;
+      squareSums[cell] += w * w;
+    }
+    return { cellOf, weight, sums, squareSums };
+  };
+
+  const x = axis(width, COLUMNS);
+  const y = axis(height, ROWS);
+  const weightSum = new Float64Array(CELLS);
+  const weightSquareSum = new Float64Array(CELLS);
+  for (let row = 0; row < ROWS; row++) {
+    for (let column = 0; column < COLUMNS; column++) {
+      weightSum[row * COLUMNS + column] = x.sums[column] * y.sums[row];
+      weightSquareSum[row * COLUMNS + column] = x.squareSums[column] * y.squareSums[row];
+    }
+  }
+
+  return {
+    width,
+    height,
+    cellOfX: x.cellOf,
+    cellOfY: y.cellOf,
+    weightX: x.weight,
+    weightY: y.weight,
+    weightSum,
+    weightSquareSum
+  };
+}
+
+// Weighted mean brightness (BT.601 luma, as H.264 encoders see it) of every cell
+function measureCells(data: Uint8ClampedArray, grid: CellGrid): Float64Array {
+  const sums = new Float64Array(CELLS);
+  const { width, height } = grid;
+  for (let y = 0; y < height; y++) {
+    const rowCell = grid.cellOfY[y] * COLUMNS;
+    const weightY = grid.weightY[y];
+    let index = y * width * 4;
+    for (let x = 0; x < width; x++, index += 4) {
+      const luma = 0.299 * data[index] + 0.587 * data[index + 1] + 0.114 * data[index + 2];
+      sums[rowCell + grid.cellOfX[x]] += luma * grid.weightX[x] * weightY;
+    }
+  }
+  for (let cell = 0; cell < CELLS; cell++) {
+    sums[cell] /= grid.weightSum[cell];
+  }
+  return sums;
+}
+
+// Every bit is spread over several cells scattered across the frame, in an order only the key gives
+function createKeying(key: string, step: number): Keying {
+  const random = seededRandom(key);
+
+  const order = Array.from({ length: CELLS }, (_, cell) => cell);
+  for (let i = CELLS - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+
+  const bitOfCell = new Uint16Array(CELLS);
+  const dither = new Float64Array(CELLS);
+  for (let cell = 0; cell < CELLS; cell++) {
+    bitOfCell[cell] = order[cell] % PAYLOAD_BITS;
+    dither[cell] = random() * step;
+  }
+  return { bitOfCell, dither };
+}
+
+// mulberry32, seeded with the FNV-1a hash of the key
+function seededRandom(key: string): () => number {
+  let seed = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    seed = Math.imul(seed ^ key.charCodeAt(i), 0x01000193);
+  }
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Version (1 byte), start time in seconds (4 bytes), then the user and session ID digests; a CRC-32 at the end
+function encodePayload(userDigest: Uint8Array, sessionDigest: Uint8Array, timestamp: number): Uint8Array {
+  const bytes = new Uint8Array(PAYLOAD_BYTES + 4);
+  const view = new DataView(bytes.buffer);
+  bytes[0] = VERSION;
+  view.setUint32(1, Math.floor(timestamp / 1000) >>> 0);
+  bytes.set(userDigest, 5);
+  bytes.set(sessionDigest, 5 + DIGEST_BYTES);
+  view.setUint32(PAYLOAD_BYTES, crc32(bytes.subarray(0, PAYLOAD_BYTES)));
+  return bytes;
+}
+
+function decodePayload(bytes: Uint8Array): Pick<ExtractedWatermark, 'userDigest' | 'sessionDigest' | 'timestamp'> | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes[0] !== VERSION || view.getUint32(PAYLOAD_BYTES) !== crc32(bytes.subarray(0, PAYLOAD_BYTES))) {
+    return null;
+  }
+
+  return {
+    userDigest: toHex(bytes.subarray(5, 5 + DIGEST_BYTES)),
+    sessionDigest: toHex(bytes.subarray(5 + DIGEST_BYTES, PAYLOAD_BYTES)),
+    timestamp: view.getUint32(1) * 1000
+  };
+}
+
+function toBits(bytes: Uint8Array): Uint8Array {
+  const bits = new Uint8Array(bytes.length * 8);
+  bytes.forEach((byte, i) => {
+    for (let bit = 0; bit < 8; bit++) {
+      bits[i * 8 + bit] = (byte >> (7 - bit)) & 1;
+    }
+  });
+  return bits;
+}
+
+function fromBits(bits: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(bits.length / 8);
+  bits.forEach((bit, i) => {
+    bytes[i >> 3] |= bit << (7 - (i & 7));
+  });
+  return bytes;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
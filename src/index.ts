@@ -2,5 +2,87 @@
  * Canvas Recorder Library
  * Export main classes for use in other projects
  */
-export { CanvasRecorder, type RecorderOptions, type RecordingData } from './CanvasRecorder';
-export { VideoConverter, type ConversionProgress } from './VideoConverter';
+export { CanvasRecorder, type RecorderOptions, type RecordingData, type FrameCaptureOptions } from './CanvasRecorder';
+export {
+  probeEncoderSupport,
+  type EncoderBackend,
+  type EncoderBackendType,
+  type EncoderSupport,
+  type EncoderProbeOptions,
+  type VideoCodec,
+  type VideoContainer
+} from './encoders/EncoderBackend';
+export {
+  createChunkSink,
+  type ChunkSink,
+  type ChunkSinkType,
+  type SinkOptions,
+  type SinkResult
+} from './sinks/ChunkSink';
+export {
+  OUTPUT_PRESETS,
+  type OutputOptions,
+  type OutputPreset,
+  type FitMode
+} from './compositing/OutputOptions';
+export { Compositor, type CompositeOptions, type CompositeSource } from './compositing/Compositor';
+export {
+  CameraOverlay,
+  type CameraOptions,
+  type CameraShape,
+  type CameraSourceInput
+} from './compositing/CameraOverlay';
+export { type TextStyle, type WebFont } from './compositing/TextStyle';
+export {
+  type WatermarkLayer,
+  type LayerImage,
+  type LayerKeyframe,
+  type LayerPosition,
+  type LayerTransition
+} from './compositing/WatermarkLayers';
+export { type Easing } from './compositing/easing';
+export { type TiledWatermark } from './compositing/WatermarkTiles';
+export { type TitleCard } from './compositing/TitleCards';
+export { type OverlayImage } from './compositing/images';
+export {
+  renderTemplate,
+  type TemplateContext,
+  type TemplateDataProvider,
+  type TemplateValue
+} from './compositing/TextTemplate';
+export { DomOverlayRenderer, type DomOverlayOptions, type DomOverlaySource } from './compositing/DomOverlay';
+export {
+  type CropOptions,
+  type CropRect,
+  type CropKeyframe,
+  type CropEasing
+} from './compositing/CropOptions';
+export { makeWebmSeekable } from './muxers/WebmFixup';
+export {
+  extractWatermark,
+  forensicIdDigest,
+  type ExtractOptions,
+  type ExtractedWatermark,
+  type ForensicWatermarkOptions
+} from './forensics/ForensicWatermark';
+export { type RecoverableSession } from './storage/RecoveryStore';
+export { AudioMixer, type AudioOptions, type AudioSource, type AudioSourceInput } from './AudioMixer';
+export { VideoConverter, type ConversionProgress, type VideoConverterOptions } from './VideoConverter';
+export {
+  BUNDLED_CORE_PATH,
+  DEFAULT_CORE_BASE_URLS,
+  type FFmpegCoreOptions,
+  type CoreCacheMode
+} from './conversion/FFmpegCore';
+export {
+  QUALITY_PROFILES,
+  type ConversionOptions,
+  type OutputContainer,
+  type ConversionVideoCodec,
+  type ConversionAudioCodec,
+  type EncoderPreset,
+  type QualityProfile
+} from './conversion/ConversionOptions';
+export { type TimeRange } from './conversion/EditOptions';
+export { type JobStatus, type JobType } from './workers/protocol';
+export { type AnimationOptions, type AnimationFormat, type DitherMode } from './conversion/AnimationOptions';
@@ -4,7 +4,13 @@
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 import { CanvasRecorder, RecordingData, RecorderOptions, WatermarkOptions, WatermarkBar } from './CanvasRecorder';
-import { VideoConverter } from './VideoConverter';
+import { ConversionProgress, VideoConverter } from './VideoConverter';
+import { AudioSource } from './AudioMixer';
+import { ConversionOptions, QualityProfile } from './conversion/ConversionOptions';
+import { DEFAULT_CORE_BASE_URLS } from './conversion/FFmpegCore';
+import { FitMode, OutputPreset } from './compositing/OutputOptions';
+import { ExtractedWatermark, extractWatermark } from './forensics/ForensicWatermark';
+import { runForensicRoundTrip } from './checks/forensicRoundTrip';
 
 // Initialize the map
 let map: maplibregl.Map;
@@ -14,7 +20,15 @@ let isRecording = false;
 let fallbackCanvas: HTMLCanvasElement | null = null;
 let animationFrameId: number | null = null;
 let animationStartTime: number = 0;
-let totalSeconds: number = 0;
+let conversionController: AbortController | null = null;
+let musicElement: HTMLAudioElement | null = null;
+let musicFile: File | null = null;
+let musicSourceIndex: number | null = null;
+let trimInPoint: number = 0; // Milliseconds
+let trimOutPoint: number | null = null; // Milliseconds, null for the end of the recording
+let latestVideo: Blob | null = null; // The recording, or its latest MP4 conversion, for the forensic watermark check
+let latestRecording: Blob | null = null; // The recording as made, for the conversion round trip of the forensic watermark
+let forensicIds: { userId: string; sessionId: string } | null = null; // Of the latest recording, to match extracted digests against
 function initMap(): void {
   // Try to load MapLibre with demo tiles, but handle errors gracefully
   try {
@@ -359,12 +373,18 @@ function initRecorder(): void {
   }
   
   const watermarkCheckbox = document.getElementById('watermarkEnabled') as HTMLInputElement;
+  const timedLayersEnabled = document.getElementById('timedLayersEnabled') as HTMLInputElement;
+  const titleCardsEnabled = document.getElementById('titleCardsEnabled') as HTMLInputElement;
+  const tiledWatermarkEnabled = document.getElementById('tiledWatermarkEnabled') as HTMLInputElement;
+  const tiledRecipient = document.getElementById('tiledRecipient') as HTMLInputElement;
+  const forensicEnabled = document.getElementById('forensicEnabled') as HTMLInputElement;
   const watermarkText = document.getElementById('watermarkText') as HTMLInputElement;
   const watermarkPosition = document.getElementById('watermarkPosition') as HTMLSelectElement;
   const watermarkX = document.getElementById('watermarkX') as HTMLInputElement;
   const watermarkY = document.getElementById('watermarkY') as HTMLInputElement;
   const watermarkFontSize = document.getElementById('watermarkFontSize') as HTMLInputElement;
   const watermarkColor = document.getElementById('watermarkColor') as HTMLInputElement;
+  const watermarkTextStyle = document.getElementById('watermarkTextStyle') as HTMLSelectElement;
   const watermarkOpacity = document.getElementById('watermarkOpacity') as HTMLInputElement;
   const watermarkImageFile = document.getElementById('watermarkImageFile') as HTMLInputElement;
   const imageWatermarkPosition = document.getElementById('imageWatermarkPosition') as HTMLSelectElement;
@@ -381,6 +401,8 @@ function initRecorder(): void {
   const topBarTextColor = document.getElementById('topBarTextColor') as HTMLInputElement;
   const topBarTextSize = document.getElementById('topBarTextSize') as HTMLInputElement;
   const bottomBarEnabled = document.getElementById('bottomBarEnabled') as HTMLInputElement;
+  const sideBarEnabled = document.getElementById('sideBarEnabled') as HTMLInputElement;
+  const barsInsetContent = document.getElementById('barsInsetContent') as HTMLInputElement;
   const bottomBarThickness = document.getElementById('bottomBarThickness') as HTMLInputElement;
   const bottomBarThicknessUnit = document.getElementById('bottomBarThicknessUnit') as HTMLSelectElement;
   const bottomBarColor = document.getElementById('bottomBarColor') as HTMLInputElement;
@@ -390,6 +412,15 @@ function initRecorder(): void {
   const bottomBarTextSize = document.getElementById('bottomBarTextSize') as HTMLInputElement;
   const fpsInput = document.getElementById('fps') as HTMLInputElement;
   const bitrateInput = document.getElementById('bitrate') as HTMLInputElement;
+  const outputFormat = document.getElementById('outputFormat') as HTMLSelectElement;
+  const outputSize = document.getElementById('outputSize') as HTMLSelectElement;
+  const outputFit = document.getElementById('outputFit') as HTMLSelectElement;
+  const cropMode = document.getElementById('cropMode') as HTMLSelectElement;
+  const overlaysEnabled = document.getElementById('overlaysEnabled') as HTMLInputElement;
+  const microphoneEnabled = document.getElementById('microphoneEnabled') as HTMLInputElement;
+  const cameraEnabled = document.getElementById('cameraEnabled') as HTMLInputElement;
+  const musicFileInput = document.getElementById('musicFile') as HTMLInputElement;
+  const musicVolume = document.getElementById('musicVolume') as HTMLInputElement;
 
   // Get FPS and bitrate from UI controls
   const fps = parseInt(fpsInput.value, 10) || 30;
@@ -399,9 +430,74 @@ function initRecorder(): void {
   const options: RecorderOptions = {
     canvas: mapCanvas,
     fps: fps,
-    videoBitsPerSecond: videoBitsPerSecond
+    videoBitsPerSecond: videoBitsPerSecond,
+    container: outputFormat.value as 'webm' | 'mp4',
+    // Keep a copy in IndexedDB so a crash or reload doesn't lose the recording
+    recovery: true
   };
 
+  // Scale high-DPI map canvases to a standard video size
+  if (outputSize.value) {
+    options.output = {
+      preset: outputSize.value as OutputPreset,
+      fit: outputFit.value as FitMode
+    };
+  }
+
+  // Record the middle of the map without resizing the viewport, optionally zooming in over 10 seconds
+  if (cropMode.value) {
+    const { width, height } = mapCanvas;
+    const center = { x: width / 4, y: height / 4, width: width / 2, height: height / 2 };
+    options.crop = cropMode.value === 'zoom'
+      ? { keyframes: [{ time: 0, x: 0, y: 0, width, height }, { time: 10000, ...center }] }
+      : center;
+  }
+
+  // The attribution and any controls are HTML over the map, so they're captured as DOM overlays
+  if (overlaysEnabled.checked) {
+    options.overlays = [{ element: '#map .maplibregl-ctrl', refreshRate: 1 }];
+  }
+
+  // Audio sources: optional background music file plus the microphone
+  const audioSources: AudioSource[] = [];
+  musicSourceIndex = null;
+
+  if (musicFileInput.files && musicFileInput.files.length > 0) {
+    const file = musicFileInput.files[0];
+    // Reuse the element for the same file; a media element can only be attached to Web Audio once
+    if (!musicElement || musicFile !== file) {
+      musicElement?.pause();
+      musicElement = new Audio(URL.createObjectURL(file));
+      musicElement.loop = true;
+      musicFile = file;
+    }
+    musicSourceIndex = audioSources.length;
+    audioSources.push({ source: musicElement, gain: parseFloat(musicVolume.value) || 0 });
+  } else {
+    musicElement?.pause();
+    musicElement = null;
+    musicFile = null;
+  }
+
+  if (microphoneEnabled.checked) {
+    audioSources.push({ source: 'microphone' });
+  }
+
+  if (audioSources.length > 0) {
+    options.audio = audioSources;
+  }
+
+  // The presenter's webcam in a circle in the corner, as in a screen recording
+  if (cameraEnabled.checked) {
+    options.camera = {
+      source: 'camera',
+      shape: 'circle',
+      width: 240,
+      border: { width: 4, color: '#ffffff' },
+      shadow: { blur: 12 }
+    };
+  }
+
   if (watermarkCheckbox.checked) {
     const watermark: WatermarkOptions = {};
 
@@ -429,6 +525,19 @@ function initRecorder(): void {
       const g = parseInt(color.slice(3, 5), 16);
       const b = parseInt(color.slice(5, 7), 16);
       watermark.color = `rgba(${r}, ${g}, ${b}, ${opacity})`;
+
+      // Keep the text readable over bright tiles
+      if (watermarkTextStyle.value === 'outline') {
+        watermark.textStyle = {
+          fontWeight: 'bold',
+          stroke: { color: 'rgba(0, 0, 0, 0.8)', width: 3 },
+          shadow: { blur: 6, offsetY: 2 }
+        };
+      } else if (watermarkTextStyle.value === 'box') {
+        watermark.textStyle = {
+          background: { color: 'rgba(0, 0, 0, 0.6)', padding: 8, radius: 6 }
+        };
+      }
     }
 
     // Image watermark
@@ -486,13 +595,102 @@ function initRecorder(): void {
       });
     }
     
+    // A title at the top of a left bar and the time at its bottom, both running up the bar
+    if (sideBarEnabled.checked) {
+      bars.push({
+        position: 'left',
+        thickness: 40,
+        thicknessUnit: 'px',
+        color: 'rgba(0, 0, 0, 0.8)',
+        text: 'Canvas Recorder',
+        textAlign: 'left',
+        textSize: 18,
+        segments: [{ text: '{date:HH:mm:ss}', align: 'right', textSize: 14 }]
+      });
+    }
+
+    if (barsInsetContent.checked) {
+      bars.forEach(bar => (bar.insetContent = true));
+    }
+
     if (bars.length > 0) {
       watermark.bars = bars;
     }
 
+    // Live map values for {center}, {zoom}, {bearing} and {pitch} placeholders in the watermark and bar text
+    watermark.data = () => {
+      const center = map.getCenter();
+      return {
+        center: `${center.lat.toFixed(4)}, ${center.lng.toFixed(4)}`,
+        zoom: map.getZoom().toFixed(2),
+        bearing: Math.round(map.getBearing()),
+        pitch: Math.round(map.getPitch())
+      };
+    };
+
     options.watermark = watermark;
   }
 
+  // A title for the first three seconds, and closing text over the last two (stop() waits for it)
+  if (timedLayersEnabled.checked) {
+    options.watermark = {
+      ...options.watermark,
+      layers: [
+        {
+          text: 'Canvas Recorder Demo\n{date:YYYY-MM-DD}',
+          fontSize: 48,
+          textStyle: { fontWeight: 'bold', background: { color: 'rgba(0, 0, 0, 0.6)', padding: 24, radius: 12 } },
+          end: 3000,
+          enter: { type: 'fade' },
+          exit: { type: 'fade' }
+        },
+        {
+          text: 'Thanks for watching',
+          fontSize: 36,
+          textStyle: { stroke: { color: '#000000', width: 4 } },
+          start: -2000,
+          enter: { type: 'slide', edge: 'bottom', duration: 800 }
+        }
+      ]
+    };
+  }
+
+  // Confidential marking across the whole frame, with the recipient's identifier in every tile
+  if (tiledWatermarkEnabled.checked) {
+    options.watermark = {
+      ...options.watermark,
+      tiled: {
+        text: 'CONFIDENTIAL',
+        recipient: tiledRecipient.value || undefined,
+        textStyle: { fontWeight: 'bold' }
+      }
+    };
+  }
+
+  // Traces a leaked copy back to the recipient and this session; the mark holds digests, so IDs can be any length
+  forensicIds = null;
+  if (forensicEnabled.checked) {
+    forensicIds = { userId: tiledRecipient.value || 'demo-user', sessionId: crypto.randomUUID() };
+    options.forensicWatermark = { ...forensicIds };
+  }
+
+  // Branded slates: start() resolves after the three-second intro, and stop() records two more for the end card
+  if (titleCardsEnabled.checked) {
+    options.intro = {
+      duration: 3000,
+      background: '#1a1a2e',
+      title: 'Canvas Recorder',
+      subtitle: 'Recorded {date:YYYY-MM-DD HH:mm}',
+      textStyle: { fontWeight: 'bold' }
+    };
+    options.outro = {
+      duration: 2000,
+      background: '#1a1a2e',
+      title: 'Thanks for watching',
+      subtitle: 'Map data © OpenStreetMap contributors'
+    };
+  }
+
   recorder = new CanvasRecorder(options);
 }
 
@@ -501,19 +699,41 @@ async function startRecording(): Promise<void> {
     // Clear previous download links
     const webmDownload = document.getElementById('webm-download');
     const mp4Download = document.getElementById('mp4-download');
+    const gifDownload = document.getElementById('gif-download');
     if (webmDownload) webmDownload.innerHTML = '';
     if (mp4Download) mp4Download.innerHTML = '';
+    if (gifDownload) gifDownload.innerHTML = '';
+    const trimDownload = document.getElementById('trim-download');
+    if (trimDownload) trimDownload.innerHTML = '';
+    
+    // Hide the trim editor until there is a new recording
+    const trimEditor = document.getElementById('trimEditor') as HTMLDivElement;
+    if (trimEditor) trimEditor.style.display = 'none';
     
     // Hide convert buttons when starting new recording
     const convertBtn = document.getElementById('convertBtn') as HTMLButtonElement;
     const convertAndDownloadBtn = document.getElementById('convertAndDownloadBtn') as HTMLButtonElement;
+    const exportGifBtn = document.getElementById('exportGifBtn') as HTMLButtonElement;
     if (convertBtn) convertBtn.style.display = 'none';
     if (convertAndDownloadBtn) convertAndDownloadBtn.style.display = 'none';
+    if (exportGifBtn) exportGifBtn.style.display = 'none';
+    const checkWatermarkBtn = document.getElementById('checkWatermarkBtn') as HTMLButtonElement;
+    if (checkWatermarkBtn) checkWatermarkBtn.style.display = 'none';
+    const roundTripWatermarkBtn = document.getElementById('roundTripWatermarkBtn') as HTMLButtonElement;
+    if (roundTripWatermarkBtn) roundTripWatermarkBtn.style.display = 'none';
     
     // Reset timer
-    updateTimer('00:00', 0);
+    updateTimer('00:00');
     
     initRecorder();
+    if (musicElement) {
+      musicElement.currentTime = 0;
+      await musicElement.play();
+    }
+    const titleCardsEnabled = document.getElementById('titleCardsEnabled') as HTMLInputElement;
+    if (titleCardsEnabled?.checked) {
+      updateStatus('Playing intro...');
+    }
     await recorder.start();
     isRecording = true;
     
@@ -521,54 +741,90 @@ async function startRecording(): Promise<void> {
     updateStatus('Recording started...');
     
     // Update timer
-    const startTime = Date.now();
+    // Elapsed time comes from the recorder so the timer stops counting while paused
     const timerInterval = setInterval(() => {
       if (!isRecording) {
         clearInterval(timerInterval);
         return;
       }
-      const elapsed = Math.floor((Date.now() - startTime) / 1000);
+      const elapsed = Math.floor(recorder.getElapsedTime() / 1000);
       const minutes = Math.floor(elapsed / 60);
       const seconds = elapsed % 60;
-      updateTimer(`${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`, elapsed);
-    }, 1000);
+      updateTimer(`${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
+    }, 250);
     
   } catch (error) {
+    musicElement?.pause();
     console.error('Failed to start recording:', error);
     updateStatus(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+function togglePause(): void {
+  if (!recorder || !isRecording) return;
+
+  const pauseBtn = document.getElementById('pauseBtn') as HTMLButtonElement;
+
+  if (recorder.isPaused()) {
+    recorder.resume();
+    musicElement?.play();
+    pauseBtn.textContent = 'Pause';
+    updateStatus('Recording resumed...');
+  } else {
+    recorder.pause();
+    musicElement?.pause();
+    pauseBtn.textContent = 'Resume';
+    updateStatus('Recording paused');
+  }
+}
+
 async function stopRecording(): Promise<void> {
   try {
     updateStatus('Stopping recording...');
     const recordingData: RecordingData = await recorder.stop();
     isRecording = false;
+    musicElement?.pause();
     
     updateUI(false);
-    const durationSeconds = Math.floor(recordingData.duration / 1000);
     updateStatus('Recording stopped. Duration: ' + (recordingData.duration / 1000).toFixed(2) + 's');
     
-    // Update totalSeconds with the recording duration
-    totalSeconds = durationSeconds;
+    // Create download link for the recording in whichever container the encoder produced
+    const isMP4 = recordingData.blob.type.startsWith('video/mp4');
+    createDownloadLink(
+      'webm-download',
+      recordingData.url,
+      isMP4 ? 'recording.mp4' : 'recording.webm',
+      isMP4 ? 'Download MP4' : 'Download WebM'
+    );
     
-    // Create download link for WebM
-    createDownloadLink('webm-download', recordingData.url, 'recording.webm', 'Download WebM');
-    
-    // Show conversion buttons
+    // Show conversion buttons (not needed when the recording is already MP4)
     const convertBtn = document.getElementById('convertBtn') as HTMLButtonElement;
     const convertAndDownloadBtn = document.getElementById('convertAndDownloadBtn') as HTMLButtonElement;
-    convertBtn.style.display = 'block';
-    convertAndDownloadBtn.style.display = 'block';
+    convertBtn.style.display = isMP4 ? 'none' : 'block';
+    convertAndDownloadBtn.style.display = isMP4 ? 'none' : 'block';
     convertBtn.onclick = () => convertToMP4(recordingData.blob, false);
     convertAndDownloadBtn.onclick = () => convertToMP4(recordingData.blob, true);
     
+    const exportGifBtn = document.getElementById('exportGifBtn') as HTMLButtonElement;
+    exportGifBtn.style.display = 'block';
+    exportGifBtn.onclick = () => exportGIF(recordingData.blob);
+
+    latestVideo = recordingData.blob;
+    latestRecording = recordingData.blob;
+    const forensicEnabled = document.getElementById('forensicEnabled') as HTMLInputElement;
+    const checkWatermarkBtn = document.getElementById('checkWatermarkBtn') as HTMLButtonElement;
+    checkWatermarkBtn.style.display = forensicEnabled.checked ? 'block' : 'none';
+    const roundTripWatermarkBtn = document.getElementById('roundTripWatermarkBtn') as HTMLButtonElement;
+    roundTripWatermarkBtn.style.display = forensicEnabled.checked ? 'block' : 'none';
+    
+    showTrimEditor(recordingData);
+    
   } catch (error) {
     console.error('Failed to stop recording:', error);
     updateStatus(`Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
   } finally {
     // Clear data and reset timer
-    updateTimer('00:00', 0);
+    updateTimer('00:00');
     
     // Clear progress container
     const progressContainer = document.getElementById('progressContainer') as HTMLDivElement;
@@ -594,35 +850,19 @@ async function convertToMP4(webmBlob: Blob, autoDownload: boolean = false): Prom
     progressContainer.style.display = 'block';
     updateStatus('Converting to MP4...');
     
-    if (!converter) {
-      converter = new VideoConverter();
-      updateStatus('Loading FFmpeg...');
-      await converter.loadFFmpeg((message) => {
-        console.log('FFmpeg:', message);
-      });
+    const signal = startConversion();
+    await loadConverter();
+    
+    const conversionProfile = document.getElementById('conversionProfile') as HTMLSelectElement;
+    const options: ConversionOptions = { container: 'mp4' };
+    if (conversionProfile.value) {
+      options.profile = conversionProfile.value as QualityProfile;
     }
     
-    const mp4Blob = await converter.convertToMP4(webmBlob, (progress) => {
-      // Calculate progress percentage based on time elapsed vs total recording duration
-      // progress.time is in seconds (as a string from the worker, need to parse)
-      const elapsedTime = typeof progress.time === 'string' ? parseFloat(progress.time) : progress.time;
-      let progressValue = 0;
-      
-      if (totalSeconds > 0) {
-        // Progress is based on how much of the video has been processed
-        // FFmpeg processes the video, so progress = elapsed time / total duration
-        progressValue = Math.min(100, Math.max(0, (elapsedTime / totalSeconds) * 100));
-      } else {
-        // Fallback: if totalSeconds not set, use a simple time-based estimate
-        // Assume conversion takes roughly the same time as the video duration
-        progressValue = Math.min(95, elapsedTime * 10); // Rough estimate
-      }
-      
-      progressBar.style.width = progressValue + '%';
-      progressText.textContent = `${progress.message} (${Math.round(progressValue)}%)`;
-    });
+    const mp4Blob = await converter.convert(webmBlob, options, showConversionProgress, signal);
     
     const mp4Url = URL.createObjectURL(mp4Blob);
+    latestVideo = mp4Blob;
     
     if (autoDownload) {
       // Automatically trigger download
@@ -642,8 +882,293 @@ async function convertToMP4(webmBlob: Blob, autoDownload: boolean = false): Prom
     progressContainer.style.display = 'none';
     
   } catch (error) {
-    console.error('Failed to convert video:', error);
-    updateStatus(`Conversion error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (isAbortError(error)) {
+      updateStatus('Conversion cancelled');
+    } else {
+      console.error('Failed to convert video:', error);
+      updateStatus(`Conversion error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  } finally {
+    finishConversion();
+  }
+}
+
+async function exportGIF(blob: Blob): Promise<void> {
+  try {
+    const progressBar = document.getElementById('progressBar') as HTMLDivElement;
+    const progressText = document.getElementById('progressText') as HTMLDivElement;
+    const progressContainer = document.getElementById('progressContainer') as HTMLDivElement;
+    
+    progressBar.style.width = '0%';
+    progressText.textContent = 'Initializing...';
+    progressContainer.style.display = 'block';
+    updateStatus('Exporting GIF...');
+    
+    const signal = startConversion();
+    await loadConverter();
+    
+    // 480px at 15 fps keeps map animations small enough to paste into chat and docs
+    const gifBlob = await converter.convertToGIF(blob, { fps: 15, width: 480 }, showConversionProgress, signal);
+    
+    createDownloadLink('gif-download', URL.createObjectURL(gifBlob), 'recording.gif', 'Download GIF');
+    updateStatus(`GIF export complete (${(gifBlob.size / 1024 / 1024).toFixed(1)} MB)`);
+    progressContainer.style.display = 'none';
+    
+  } catch (error) {
+    if (isAbortError(error)) {
+      updateStatus('GIF export cancelled');
+    } else {
+      console.error('Failed to export GIF:', error);
+      updateStatus(`GIF export error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  } finally {
+    finishConversion();
+  }
+}
+
+// Reads the invisible watermark back from the recording, or from its MP4 once converted
+async function checkForensicWatermark(): Promise<void> {
+  if (!latestVideo) return;
+
+  try {
+    updateStatus('Reading forensic watermark...');
+    const found = await extractWatermark(latestVideo, watermarkCandidates());
+    updateStatus(found
+      ? `Watermark: ${describeWatermark(found)}, recorded ${new Date(found.timestamp).toLocaleString()} (confidence ${(found.confidence * 100).toFixed(0)}%)`
+      : 'No forensic watermark found');
+  } catch (error) {
+    console.error('Failed to read forensic watermark:', error);
+    updateStatus(`Watermark check error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Converts the recording to H.264 MP4 at the lossiest profile, then reads the watermark back from the copy
+async function checkWatermarkAfterConversion(): Promise<void> {
+  if (!latestRecording) return;
+
+  try {
+    const progressBar = document.getElementById('progressBar') as HTMLDivElement;
+    const progressText = document.getElementById('progressText') as HTMLDivElement;
+    const progressContainer = document.getElementById('progressContainer') as HTMLDivElement;
+
+    progressBar.style.width = '0%';
+    progressText.textContent = 'Initializing...';
+    progressContainer.style.display = 'block';
+    updateStatus('Converting to H.264 MP4...');
+
+    const signal = startConversion();
+    await loadConverter();
+
+    const mp4Blob = await converter.convert(latestRecording, { container: 'mp4', videoCodec: 'h264', profile: 'web' }, showConversionProgress, signal);
+    latestVideo = mp4Blob;
+    progressContainer.style.display = 'none';
+
+    updateStatus('Reading forensic watermark from the H.264 copy...');
+    const found = await extractWatermark(mp4Blob, { ...watermarkCandidates(), signal });
+    updateStatus(found
+      ? `Watermark survived H.264 conversion: ${describeWatermark(found)} (confidence ${(found.confidence * 100).toFixed(0)}%)`
+      : 'No forensic watermark found after H.264 conversion');
+  } catch (error) {
+    if (isAbortError(error)) {
+      updateStatus('Watermark round trip cancelled');
+    } else {
+      console.error('Failed to check forensic watermark after conversion:', error);
+      updateStatus(`Watermark round trip error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  } finally {
+    finishConversion();
+  }
+}
+
+// Records a test scene, converts it to H.264 and checks every field of the mark read back from the copy
+async function runWatermarkSelfTest(): Promise<void> {
+  try {
+    const signal = startConversion();
+    await loadConverter();
+    updateStatus('Running forensic watermark round trip...');
+
+    const result = await runForensicRoundTrip(converter, signal);
+    console.log('Forensic watermark round trip passed:', result);
+    updateStatus(`Watermark round trip passed (confidence ${(result.confidence * 100).toFixed(0)}%)`);
+    document.title = 'PASS: forensic watermark round trip';
+  } catch (error) {
+    console.error('Forensic watermark round trip failed:', error);
+    updateStatus(`Watermark round trip failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    document.title = 'FAIL: forensic watermark round trip';
+  } finally {
+    finishConversion();
+  }
+}
+
+// The latest recording's IDs, which the digests in the mark are matched against
+function watermarkCandidates(): { userIds?: string[]; sessionIds?: string[] } {
+  return forensicIds ? { userIds: [forensicIds.userId], sessionIds: [forensicIds.sessionId] } : {};
+}
+
+function describeWatermark(found: ExtractedWatermark): string {
+  const user = found.userId ?? `unknown user (digest ${found.userDigest})`;
+  const session = found.sessionId ?? `unknown session (digest ${found.sessionDigest})`;
+  return `user ${user}, session ${session}`;
+}
+
+function showTrimEditor(recordingData: RecordingData): void {
+  const trimEditor = document.getElementById('trimEditor') as HTMLDivElement;
+  const previewVideo = document.getElementById('previewVideo') as HTMLVideoElement;
+  const trimBtn = document.getElementById('trimBtn') as HTMLButtonElement;
+  
+  trimInPoint = 0;
+  trimOutPoint = null;
+  updateTrimLabels();
+  
+  previewVideo.src = recordingData.url;
+  trimEditor.style.display = 'block';
+  trimBtn.onclick = () => trimRecording(recordingData.blob);
+}
+
+function updateTrimLabels(): void {
+  const inPointLabel = document.getElementById('inPointLabel') as HTMLSpanElement;
+  const outPointLabel = document.getElementById('outPointLabel') as HTMLSpanElement;
+  
+  inPointLabel.textContent = `In: ${(trimInPoint / 1000).toFixed(2)}s`;
+  outPointLabel.textContent = trimOutPoint === null ? 'Out: end' : `Out: ${(trimOutPoint / 1000).toFixed(2)}s`;
+}
+
+function setTrimPoint(point: 'in' | 'out'): void {
+  const previewVideo = document.getElementById('previewVideo') as HTMLVideoElement;
+  const time = Math.round(previewVideo.currentTime * 1000);
+  
+  if (point === 'in') {
+    trimInPoint = time;
+    // Drop an out point that would now come before the in point
+    if (trimOutPoint !== null && trimOutPoint <= trimInPoint) {
+      trimOutPoint = null;
+    }
+  } else {
+    if (time <= trimInPoint) {
+      updateStatus('Out point must be after the in point');
+      return;
+    }
+    trimOutPoint = time;
+  }
+  
+  updateTrimLabels();
+}
+
+async function trimRecording(blob: Blob): Promise<void> {
+  try {
+    const progressText = document.getElementById('progressText') as HTMLDivElement;
+    const progressContainer = document.getElementById('progressContainer') as HTMLDivElement;
+    const progressBar = document.getElementById('progressBar') as HTMLDivElement;
+    
+    progressBar.style.width = '0%';
+    progressText.textContent = 'Initializing...';
+    progressContainer.style.display = 'block';
+    updateStatus('Trimming recording...');
+    
+    const signal = startConversion();
+    await loadConverter();
+    
+    const range = { start: trimInPoint, end: trimOutPoint ?? undefined };
+    const trimmedBlob = await converter.trim(blob, range, { container: 'mp4' }, showConversionProgress, signal);
+    
+    createDownloadLink('trim-download', URL.createObjectURL(trimmedBlob), 'recording-trimmed.mp4', 'Download Trimmed MP4');
+    updateStatus('Trim complete!');
+    progressContainer.style.display = 'none';
+    
+  } catch (error) {
+    if (isAbortError(error)) {
+      updateStatus('Trim cancelled');
+    } else {
+      console.error('Failed to trim recording:', error);
+      updateStatus(`Trim error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  } finally {
+    finishConversion();
+  }
+}
+
+// Starts tracking a conversion so the Cancel button can abort it
+function startConversion(): AbortSignal {
+  conversionController?.abort();
+  conversionController = new AbortController();
+  return conversionController.signal;
+}
+
+function finishConversion(): void {
+  conversionController = null;
+  const progressContainer = document.getElementById('progressContainer') as HTMLDivElement;
+  progressContainer.style.display = 'none';
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function showConversionProgress(progress: ConversionProgress): void {
+  const progressBar = document.getElementById('progressBar') as HTMLDivElement;
+  const progressText = document.getElementById('progressText') as HTMLDivElement;
+  
+  progressBar.style.width = progress.percent + '%';
+  const eta = progress.eta !== undefined ? `, ${Math.ceil(progress.eta / 1000)}s left` : '';
+  progressText.textContent = `${progress.message} (${Math.round(progress.percent)}%${eta})`;
+}
+
+async function loadConverter(): Promise<void> {
+  if (converter) return;
+  
+  // Prefer the copy served with the app (npm run ffmpeg:copy-core), then fall back to the public CDNs
+  converter = new VideoConverter({ bundled: true, baseURLs: DEFAULT_CORE_BASE_URLS });
+  updateStatus('Loading FFmpeg...');
+  await converter.loadFFmpeg((message) => {
+    console.log('FFmpeg:', message);
+  });
+}
+
+// Offer recordings interrupted by a crash or reload for download
+async function showRecoverableSessions(): Promise<void> {
+  const container = document.getElementById('recovery-download');
+  if (!container) return;
+
+  let sessions;
+  try {
+    sessions = await CanvasRecorder.listRecoverableSessions();
+  } catch (error) {
+    console.warn('Failed to list recoverable recordings:', error);
+    return;
+  }
+
+  container.innerHTML = '';
+  for (const session of sessions) {
+    const row = document.createElement('div');
+    const extension = session.mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+    const started = new Date(session.startTime).toLocaleString();
+
+    const recoverBtn = document.createElement('button');
+    recoverBtn.textContent = `Recover recording from ${started} (${Math.round(session.duration / 1000)}s)`;
+    recoverBtn.onclick = async () => {
+      try {
+        const recording = await CanvasRecorder.recoverSession(session.id);
+        const link = document.createElement('a');
+        link.href = recording.url;
+        link.download = `recovered-${session.startTime}.${extension}`;
+        link.textContent = 'Download Recovered Recording';
+        link.className = 'download-link';
+        recoverBtn.replaceWith(link);
+        updateStatus('Recording recovered. Discard it once downloaded to free the browser storage.');
+      } catch (error) {
+        updateStatus(`Error: ${error instanceof Error ? error.message : 'Failed to recover recording'}`);
+      }
+    };
+
+    const discardBtn = document.createElement('button');
+    discardBtn.textContent = 'Discard';
+    discardBtn.onclick = async () => {
+      await CanvasRecorder.discardRecoverableSession(session.id);
+      row.remove();
+    };
+
+    row.append(recoverBtn, discardBtn);
+    container.appendChild(row);
   }
 }
 
@@ -664,14 +1189,21 @@ function createDownloadLink(containerId: string, url: string, filename: string,
 
 function updateUI(recording: boolean): void {
   const startBtn = document.getElementById('startBtn') as HTMLButtonElement;
+  const pauseBtn = document.getElementById('pauseBtn') as HTMLButtonElement;
   const stopBtn = document.getElementById('stopBtn') as HTMLButtonElement;
   const watermarkCheckbox = document.getElementById('watermarkEnabled') as HTMLInputElement;
+  const timedLayersEnabled = document.getElementById('timedLayersEnabled') as HTMLInputElement;
+  const titleCardsEnabled = document.getElementById('titleCardsEnabled') as HTMLInputElement;
+  const tiledWatermarkEnabled = document.getElementById('tiledWatermarkEnabled') as HTMLInputElement;
+  const tiledRecipient = document.getElementById('tiledRecipient') as HTMLInputElement;
+  const forensicEnabled = document.getElementById('forensicEnabled') as HTMLInputElement;
   const watermarkText = document.getElementById('watermarkText') as HTMLInputElement;
   const watermarkPosition = document.getElementById('watermarkPosition') as HTMLSelectElement;
   const watermarkX = document.getElementById('watermarkX') as HTMLInputElement;
   const watermarkY = document.getElementById('watermarkY') as HTMLInputElement;
   const watermarkFontSize = document.getElementById('watermarkFontSize') as HTMLInputElement;
   const watermarkColor = document.getElementById('watermarkColor') as HTMLInputElement;
+  const watermarkTextStyle = document.getElementById('watermarkTextStyle') as HTMLSelectElement;
   const watermarkOpacity = document.getElementById('watermarkOpacity') as HTMLInputElement;
   const watermarkImageFile = document.getElementById('watermarkImageFile') as HTMLInputElement;
   const imageWatermarkPosition = document.getElementById('imageWatermarkPosition') as HTMLSelectElement;
@@ -688,6 +1220,8 @@ function updateUI(recording: boolean): void {
   const topBarTextColor = document.getElementById('topBarTextColor') as HTMLInputElement;
   const topBarTextSize = document.getElementById('topBarTextSize') as HTMLInputElement;
   const bottomBarEnabled = document.getElementById('bottomBarEnabled') as HTMLInputElement;
+  const sideBarEnabled = document.getElementById('sideBarEnabled') as HTMLInputElement;
+  const barsInsetContent = document.getElementById('barsInsetContent') as HTMLInputElement;
   const bottomBarThickness = document.getElementById('bottomBarThickness') as HTMLInputElement;
   const bottomBarThicknessUnit = document.getElementById('bottomBarThicknessUnit') as HTMLSelectElement;
   const bottomBarColor = document.getElementById('bottomBarColor') as HTMLInputElement;
@@ -697,19 +1231,31 @@ function updateUI(recording: boolean): void {
   const bottomBarTextSize = document.getElementById('bottomBarTextSize') as HTMLInputElement;
   const fpsInput = document.getElementById('fps') as HTMLInputElement;
   const bitrateInput = document.getElementById('bitrate') as HTMLInputElement;
+  const outputFormat = document.getElementById('outputFormat') as HTMLSelectElement;
   const geojsonCheckbox = document.getElementById('geojsonEnabled') as HTMLInputElement;
+  const microphoneEnabled = document.getElementById('microphoneEnabled') as HTMLInputElement;
+  const cameraEnabled = document.getElementById('cameraEnabled') as HTMLInputElement;
+  const musicFileInput = document.getElementById('musicFile') as HTMLInputElement;
   
   const disabled = recording;
   
   startBtn.disabled = disabled;
+  pauseBtn.disabled = !disabled;
+  pauseBtn.textContent = 'Pause';
   stopBtn.disabled = !disabled;
   watermarkCheckbox.disabled = disabled;
+  timedLayersEnabled.disabled = disabled;
+  titleCardsEnabled.disabled = disabled;
+  tiledWatermarkEnabled.disabled = disabled;
+  tiledRecipient.disabled = disabled;
+  forensicEnabled.disabled = disabled;
   watermarkText.disabled = disabled;
   watermarkPosition.disabled = disabled;
   watermarkX.disabled = disabled;
   watermarkY.disabled = disabled;
   watermarkFontSize.disabled = disabled;
   watermarkColor.disabled = disabled;
+  watermarkTextStyle.disabled = disabled;
   watermarkOpacity.disabled = disabled;
   watermarkImageFile.disabled = disabled;
   imageWatermarkPosition.disabled = disabled;
@@ -726,6 +1272,8 @@ function updateUI(recording: boolean): void {
   topBarTextColor.disabled = disabled;
   topBarTextSize.disabled = disabled;
   bottomBarEnabled.disabled = disabled;
+  sideBarEnabled.disabled = disabled;
+  barsInsetContent.disabled = disabled;
   bottomBarThickness.disabled = disabled;
   bottomBarThicknessUnit.disabled = disabled;
   bottomBarColor.disabled = disabled;
@@ -735,13 +1283,19 @@ function updateUI(recording: boolean): void {
   bottomBarTextSize.disabled = disabled;
   fpsInput.disabled = disabled;
   bitrateInput.disabled = disabled;
+  outputFormat.disabled = disabled;
   geojsonCheckbox.disabled = disabled;
+  microphoneEnabled.disabled = disabled;
+  cameraEnabled.disabled = disabled;
+  musicFileInput.disabled = disabled;
   
   if (recording) {
     startBtn.classList.add('disabled');
+    pauseBtn.classList.remove('disabled');
     stopBtn.classList.remove('disabled');
   } else {
     startBtn.classList.remove('disabled');
+    pauseBtn.classList.add('disabled');
     stopBtn.classList.add('disabled');
   }
 }
@@ -753,15 +1307,11 @@ function updateStatus(message: string): void {
   }
 }
 
-function updateTimer(time: string, seconds?: number): void {
+function updateTimer(time: string): void {
   const timerElement = document.getElementById('timer');
   if (timerElement) {
     timerElement.textContent = time;
   }
-  // Update totalSeconds if provided
-  if (seconds !== undefined) {
-    totalSeconds = seconds;
-  }
 }
 
 // Initialize the application
@@ -769,12 +1319,44 @@ document.addEventListener('DOMContentLoaded', () => {
   initMap();
   
   const startBtn = document.getElementById('startBtn');
+  const pauseBtn = document.getElementById('pauseBtn');
   const stopBtn = document.getElementById('stopBtn');
   const geojsonCheckbox = document.getElementById('geojsonEnabled') as HTMLInputElement;
+  const musicVolume = document.getElementById('musicVolume') as HTMLInputElement;
   
   startBtn?.addEventListener('click', startRecording);
+  pauseBtn?.addEventListener('click', togglePause);
   stopBtn?.addEventListener('click', stopRecording);
   
+  document.getElementById('cancelConversionBtn')?.addEventListener('click', () => {
+    conversionController?.abort();
+  });
+
+  document.getElementById('checkWatermarkBtn')?.addEventListener('click', checkForensicWatermark);
+  document.getElementById('roundTripWatermarkBtn')?.addEventListener('click', checkWatermarkAfterConversion);
+  document.getElementById('watermarkSelfTestBtn')?.addEventListener('click', runWatermarkSelfTest);
+
+  // ?check=forensic runs the round trip on load, for scripted runs in a browser; the result is in the page title
+  if (new URLSearchParams(location.search).get('check') === 'forensic') {
+    runWatermarkSelfTest();
+  }
+  
+  // Trim editor in/out points
+  document.getElementById('setInBtn')?.addEventListener('click', () => setTrimPoint('in'));
+  document.getElementById('setOutBtn')?.addEventListener('click', () => setTrimPoint('out'));
+  document.getElementById('resetTrimBtn')?.addEventListener('click', () => {
+    trimInPoint = 0;
+    trimOutPoint = null;
+    updateTrimLabels();
+  });
+  
+  // Music volume can be changed while recording
+  musicVolume?.addEventListener('input', () => {
+    if (isRecording && musicSourceIndex !== null) {
+      recorder.setAudioGain(musicSourceIndex, parseFloat(musicVolume.value) || 0);
+    }
+  });
+  
   // Handle GeoJSON layer toggle
   geojsonCheckbox?.addEventListener('change', (e) => {
     const enabled = (e.target as HTMLInputElement).checked;
@@ -787,4 +1369,5 @@ document.addEventListener('DOMContentLoaded', () => {
   }
   
   updateUI(false);
+  showRecoverableSessions();
 });
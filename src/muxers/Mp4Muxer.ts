@@ -0,0 +1,463 @@
+/**
+ * Fragmented MP4 muxer for WebCodecs output
+ * Writes ftyp + moov once, then one moof + mdat fragment per track per GOP, so output can be
+ * streamed as it is produced instead of being held until the end of the recording
+ */
+import { Bytes, ascii, concatBytes, i16, i32, u16, u24, u32, u64, u8, zeros } from './bytes';
+import {
+  Muxer,
+  MuxerOptions,
+  buildAacConfig,
+  buildAv1Config,
+  copyChunkData,
+  extractAv1SequenceHeader,
+  parseVp9CodecString
+} from './Muxer';
+
+const MOVIE_TIMESCALE = 1000;
+const VIDEO_TIMESCALE = 90000;
+const VIDEO_TRACK_ID = 1;
+const AUDIO_TRACK_ID = 2;
+
+// Fragment boundaries allowed to wait for the audio track before flushing anyway
+const MAX_PENDING_BOUNDARIES = 2;
+
+// Identity transformation matrix used by mvhd and tkhd
+const MATRIX = [0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000];
+
+interface PendingSample {
+  data: Bytes;
+  timestamp: number; // Microseconds, relative to the first video sample
+  duration: number | null; // Microseconds, if reported by the encoder
+  keyFrame: boolean;
+}
+
+interface Track {
+  id: number;
+  timescale: number;
+  defaultDuration: number; // Microseconds, used for the last sample when nothing follows it
+  pending: PendingSample[];
+}
+
+function box(type: string, ...payload: Uint8Array[]): Bytes {
+  let size = 8;
+  for (const part of payload) {
+    size += part.byteLength;
+  }
+  return concatBytes([u32(size), ascii(type), ...payload]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...payload: Uint8Array[]): Bytes {
+  return box(type, u8(version), u24(flags), ...payload);
+}
+
+function matrix(): Bytes {
+  return concatBytes(MATRIX.map(value => u32(value)));
+}
+
+// MPEG-4 descriptors (used inside esds) with a single-byte length
+function descriptor(tag: number, ...payload: Uint8Array[]): Bytes {
+  const data = concatBytes(payload);
+  return concatBytes([u8(tag), u8(data.byteLength), data]);
+}
+
+export class Mp4Muxer implements Muxer {
+  private options: MuxerOptions;
+  private video: Track;
+  private audio: Track | null = null;
+  private boundaries: number[] = [];
+  private lastAudioTimestamp: number = -Infinity;
+  private headerWritten: boolean = false;
+  private firstTimestamp: number | null = null;
+  private sequenceNumber: number = 1;
+  private decoderDescription: Uint8Array | null = null;
+
+  constructor(options: MuxerOptions) {
+    if (options.codec === 'vp8') {
+      throw new Error('VP8 is not supported in MP4 output');
+    }
+    this.options = options;
+
+    this.video = {
+      id: VIDEO_TRACK_ID,
+      timescale: VIDEO_TIMESCALE,
+      defaultDuration: 1000000 / options.fps,
+      pending: []
+    };
+
+    if (options.audio) {
+      this.audio = {
+        id: AUDIO_TRACK_ID,
+        // Opus in MP4 is always timed at 48 kHz
+        timescale: options.audio.codec === 'opus' ? 48000 : options.audio.sampleRate,
+        defaultDuration: 1024 * 1000000 / options.audio.sampleRate,
+        pending: []
+      };
+    }
+  }
+
+  addVideoChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !this.decoderDescription) {
+      this.decoderDescription = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+        : new Uint8Array(description).slice();
+    }
+
+    const data = copyChunkData(chunk);
+    const keyFrame = chunk.type === 'key';
+
+    if (!this.headerWritten) {
+      // A fragment must start on a keyframe, so anything before the first one is unusable
+      if (!keyFrame) return;
+      this.writeHeader(data);
+      this.firstTimestamp = chunk.timestamp;
+    }
+
+    const timestamp = chunk.timestamp - this.firstTimestamp!;
+
+    // Start a new fragment at every keyframe so each fragment is independently decodable
+    if (keyFrame && this.video.pending.length > 0) {
+      this.boundaries.push(timestamp);
+    }
+
+    this.video.pending.push({
+      data,
+      timestamp,
+      duration: chunk.duration,
+      keyFrame
+    });
+
+    this.flushReadyFragments();
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk): void {
+    // Audio is timed against the first video frame, so nothing can be placed before it arrives
+    if (!this.audio || this.firstTimestamp === null) return;
+
+    const timestamp = chunk.timestamp - this.firstTimestamp;
+    if (timestamp < 0) return;
+
+    this.audio.pending.push({
+      data: copyChunkData(chunk),
+      timestamp,
+      duration: chunk.duration,
+      keyFrame: true
+    });
+    this.lastAudioTimestamp = timestamp;
+
+    this.flushReadyFragments();
+  }
+
+  finalize(): void {
+    this.flushFragments(Infinity);
+  }
+
+  private flushReadyFragments(): void {
+    // Wait until audio has caught up with a boundary so both tracks' fragments cover the same time,
+    // but don't hold video back forever if the audio track stalls
+    while (
+      this.boundaries.length > 0 &&
+      (!this.audio || this.lastAudioTimestamp >= this.boundaries[0] || this.boundaries.length > MAX_PENDING_BOUNDARIES)
+    ) {
+      this.flushFragments(this.boundaries.shift()!);
+    }
+  }
+
+  private flushFragments(until: number): void {
+    const output: Uint8Array[] = [];
+
+    for (const track of [this.video, this.audio]) {
+      if (!track) continue;
+
+      const index = track.pending.findIndex(sample => sample.timestamp >= until);
+      const samples = index === -1 ? track.pending : track.pending.slice(0, index);
+      track.pending = index === -1 ? [] : track.pending.slice(index);
+
+      if (samples.length > 0) {
+        const nextTimestamp = track.pending.length > 0 ? track.pending[0].timestamp : null;
+        output.push(this.buildFragment(track, samples, nextTimestamp));
+      }
+    }
+
+    if (output.length > 0) {
+      this.options.onData(concatBytes(output));
+    }
+  }
+
+  private toTicks(microseconds: number, timescale: number): number {
+    return Math.round((microseconds * timescale) / 1000000);
+  }
+
+  private writeHeader(firstKeyFrame: Uint8Array): void {
+    const ftyp = box('ftyp', ascii('isom'), u32(0x200), ascii('isom'), ascii('iso5'), ascii('iso6'), ascii('mp41'));
+    const traks = [this.videoTrak(firstKeyFrame)];
+    if (this.audio) {
+      traks.push(this.audioTrak());
+    }
+    const moov = box('moov', this.mvhd(), ...traks, this.mvex());
+    this.options.onData(concatBytes([ftyp, moov]));
+    this.headerWritten = true;
+  }
+
+  private mvhd(): Bytes {
+    return fullBox('mvhd', 0, 0,
+      u32(0), // creation_time
+      u32(0), // modification_time
+      u32(MOVIE_TIMESCALE),
+      u32(0), // duration is unknown up front; fragments carry the timing
+      u32(0x00010000), // rate 1.0
+      u16(0x0100), // volume 1.0
+      zeros(10), // reserved
+      matrix(),
+      zeros(24), // pre_defined
+      u32((this.audio ? AUDIO_TRACK_ID : VIDEO_TRACK_ID) + 1) // next_track_ID
+    );
+  }
+
+  private trak(
+    track: Track,
+    options: { width: number; height: number; volume: number; handler: string; handlerName: string; mediaHeader: Bytes; sampleEntry: Bytes }
+  ): Bytes {
+    const tkhd = fullBox('tkhd', 0, 0x000003, // track enabled + in movie
+      u32(0), // creation_time
+      u32(0), // modification_time
+      u32(track.id),
+      u32(0), // reserved
+      u32(0), // duration
+      zeros(8), // reserved
+      u16(0), // layer
+      u16(0), // alternate_group
+      u16(options.volume),
+      u16(0), // reserved
+      matrix(),
+      u32(options.width * 0x10000), // 16.16 fixed point
+      u32(options.height * 0x10000)
+    );
+
+    const mdhd = fullBox('mdhd', 0, 0,
+      u32(0), // creation_time
+      u32(0), // modification_time
+      u32(track.timescale),
+      u32(0), // duration
+      u16(0x55c4), // language 'und'
+      u16(0) // pre_defined
+    );
+
+    const hdlr = fullBox('hdlr', 0, 0,
+      u32(0), // pre_defined
+      ascii(options.handler),
+      zeros(12), // reserved
+      ascii(`${options.handlerName}\0`)
+    );
+
+    const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)));
+
+    // Sample tables stay empty; every sample is described by the fragments
+    const stbl = box('stbl',
+      fullBox('stsd', 0, 0, u32(1), options.sampleEntry),
+      fullBox('stts', 0, 0, u32(0)),
+      fullBox('stsc', 0, 0, u32(0)),
+      fullBox('stsz', 0, 0, u32(0), u32(0)),
+      fullBox('stco', 0, 0, u32(0))
+    );
+
+    return box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', options.mediaHeader, dinf, stbl)));
+  }
+
+  private videoTrak(firstKeyFrame: Uint8Array): Bytes {
+    return this.trak(this.video, {
+      width: this.options.width,
+      height: this.options.height,
+      volume: 0,
+      handler: 'vide',
+      handlerName: 'VideoHandler',
+      mediaHeader: fullBox('vmhd', 0, 1, u16(0), zeros(6)),
+      sampleEntry: this.videoSampleEntry(firstKeyFrame)
+    });
+  }
+
+  private audioTrak(): Bytes {
+    return this.trak(this.audio!, {
+      width: 0,
+      height: 0,
+      volume: 0x0100,
+      handler: 'soun',
+      handlerName: 'SoundHandler',
+      mediaHeader: fullBox('smhd', 0, 0, u16(0), u16(0)),
+      sampleEntry: this.audioSampleEntry()
+    });
+  }
+
+  private videoSampleEntry(firstKeyFrame: Uint8Array): Bytes {
+    const { codec, codecString, width, height } = this.options;
+
+    let type: string;
+    let config: Bytes;
+
+    switch (codec) {
+      case 'h264': {
+        if (!this.decoderDescription) {
+          throw new Error('H.264 encoder did not provide an avcC decoder configuration');
+        }
+        type = 'avc1';
+        config = box('avcC', this.decoderDescription);
+        break;
+      }
+      case 'vp9': {
+        const { profile, level, bitDepth } = parseVp9CodecString(codecString);
+        type = 'vp09';
+        config = fullBox('vpcC', 1, 0,
+          u8(profile),
+          u8(level),
+          u8((bitDepth << 4) | (1 << 1)), // 4:2:0 colocated chroma, limited range
+          u8(1), // colour_primaries BT.709
+          u8(1), // transfer_characteristics BT.709
+          u8(1), // matrix_coefficients BT.709
+          u16(0) // codecInitializationDataSize
+        );
+        break;
+      }
+      case 'av1':
+      default: {
+        type = 'av01';
+        config = box('av1C', this.decoderDescription ?? buildAv1Config(codecString, extractAv1SequenceHeader(firstKeyFrame)));
+        break;
+      }
+    }
+
+    const compressorName = zeros(32);
+
+    return box(type,
+      zeros(6), // reserved
+      u16(1), // data_reference_index
+      u16(0), // pre_defined
+      u16(0), // reserved
+      zeros(12), // pre_defined
+      u16(width),
+      u16(height),
+      u32(0x00480000), // 72 dpi horizontal
+      u32(0x00480000), // 72 dpi vertical
+      u32(0), // reserved
+      u16(1), // frame_count
+      compressorName,
+      u16(0x0018), // depth
+      i16(-1), // pre_defined
+      config
+    );
+  }
+
+  private audioSampleEntry(): Bytes {
+    const { codec, sampleRate, numberOfChannels } = this.options.audio!;
+
+    let type: string;
+    let config: Bytes;
+
+    if (codec === 'aac') {
+      type = 'mp4a';
+      config = fullBox('esds', 0, 0,
+        descriptor(0x03, // ES_Descriptor
+          u16(AUDIO_TRACK_ID),
+          u8(0), // flags
+          descriptor(0x04, // DecoderConfigDescriptor
+            u8(0x40), // MPEG-4 audio
+            u8(0x15), // audio stream
+            u24(0), // bufferSizeDB
+            u32(0), // maxBitrate
+            u32(0), // avgBitrate
+            descriptor(0x05, buildAacConfig(sampleRate, numberOfChannels)) // DecoderSpecificInfo
+          ),
+          descriptor(0x06, u8(0x02)) // SLConfigDescriptor
+        )
+      );
+    } else {
+      type = 'Opus';
+      config = box('dOps',
+        u8(0), // version
+        u8(numberOfChannels),
+        u16(0), // pre-skip
+        u32(sampleRate), // input sample rate
+        i16(0), // output gain
+        u8(0) // channel mapping family
+      );
+    }
+
+    return box(type,
+      zeros(6), // reserved
+      u16(1), // data_reference_index
+      zeros(8), // reserved
+      u16(numberOfChannels),
+      u16(16), // sample size
+      u16(0), // pre_defined
+      u16(0), // reserved
+      u32((this.audio!.timescale & 0xffff) * 0x10000), // 16.16 sample rate
+      config
+    );
+  }
+
+  private mvex(): Bytes {
+    const trex = (trackId: number) => fullBox('trex', 0, 0,
+      u32(trackId),
+      u32(1), // default_sample_description_index
+      u32(0), // default_sample_duration
+      u32(0), // default_sample_size
+      u32(0) // default_sample_flags
+    );
+
+    return box('mvex', trex(VIDEO_TRACK_ID), ...(this.audio ? [trex(AUDIO_TRACK_ID)] : []));
+  }
+
+  private buildFragment(track: Track, samples: PendingSample[], nextTimestamp: number | null): Bytes {
+    const baseDecodeTime = this.toTicks(samples[0].timestamp, track.timescale);
+
+    // Durations come from the gap to the next sample so variable frame rate recordings stay in sync
+    const durations = samples.map((sample, index) => {
+      const next = index + 1 < samples.length
+        ? samples[index + 1].timestamp
+        : nextTimestamp ?? sample.timestamp + (sample.duration ?? track.defaultDuration);
+      return Math.max(1, this.toTicks(next, track.timescale) - this.toTicks(sample.timestamp, track.timescale));
+    });
+
+    const buildMoof = (dataOffset: number): Bytes => {
+      const entries = samples.map((sample, index) => concatBytes([
+        u32(durations[index]),
+        u32(sample.data.byteLength),
+        // Keyframes don't depend on other samples; everything else is a non-sync sample
+        u32(sample.keyFrame ? 0x02000000 : 0x01010000)
+      ]));
+
+      const trun = fullBox('trun', 0, 0x000701, // data offset, duration, size and flags present
+        u32(samples.length),
+        i32(dataOffset),
+        ...entries
+      );
+
+      return box('moof',
+        fullBox('mfhd', 0, 0, u32(this.sequenceNumber)),
+        box('traf',
+          fullBox('tfhd', 0, 0x020000, u32(track.id)), // default-base-is-moof
+          fullBox('tfdt', 1, 0, u64(baseDecodeTime)),
+          trun
+        )
+      );
+    };
+
+    // The data offset points past the moof and mdat headers, so measure the moof first
+    const moofSize = buildMoof(0).byteLength;
+    const moof = buildMoof(moofSize + 8);
+
+    let mdatSize = 8;
+    for (const sample of samples) {
+      mdatSize += sample.data.byteLength;
+    }
+
+    this.sequenceNumber++;
+
+    return concatBytes([
+      moof,
+      u32(mdatSize),
+      ascii('mdat'),
+      ...samples.map(sample => sample.data)
+    ]);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Shared muxer types and codec configuration helpers
+ */
+import { Bytes, ascii, concatBytes, u8 } from './bytes';
+
+export type VideoCodec = 'h264' | 'vp8' | 'vp9' | 'av1';
+
+export type AudioCodec = 'aac' | 'opus';
+
+export type VideoContainer = 'mp4' | 'webm';
+
+export interface AudioTrackOptions {
+  codec: AudioCodec;
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+export interface MuxerOptions {
+  codec: VideoCodec;
+  codecString: string; // Full WebCodecs codec string, e.g. 'avc1.640028'
+  width: number;
+  height: number;
+  fps: number;
+  audio?: AudioTrackOptions; // Optional second track
+  onData: (data: Bytes) => void; // Receives muxed output in order as it becomes available
+}
+
+export interface Muxer {
+  addVideoChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void;
+  addAudioChunk(chunk: EncodedAudioChunk): void;
+  finalize(): void;
+}
+
+export function copyChunkData(chunk: EncodedVideoChunk | EncodedAudioChunk): Bytes {
+  const data = new Uint8Array(chunk.byteLength);
+  chunk.copyTo(data);
+  return data;
+}
+
+/**
+ * Find the AV1 sequence header OBU in a keyframe, needed for the av1C configOBUs field
+ */
+export function extractAv1SequenceHeader(data: Uint8Array): Uint8Array | null {
+  let offset = 0;
+
+  while (offset < data.length) {
+    const start = offset;
+    const header = data[offset++];
+    const obuType = (header >> 3) & 0x0f;
+    const hasExtension = (header >> 2) & 1;
+    const hasSize = (header >> 1) & 1;
+
+    if (hasExtension) offset++;
+
+    // Without a size field the OBU runs to the end of the data
+    if (!hasSize) {
+      return obuType === 1 ? data.slice(start) : null;
+    }
+
+    // obu_size is leb128 encoded
+    let size = 0;
+    for (let i = 0; i < 8; i++) {
+      const byte = data[offset++];
+      size += (byte & 0x7f) * Math.pow(2, 7 * i);
+      if (!(byte & 0x80)) break;
+    }
+
+    const end = offset + size;
+    if (obuType === 1) {
+      return data.slice(start, end);
+    }
+    offset = end;
+  }
+
+  return null;
+}
+
+/**
+ * Build an AV1CodecConfigurationRecord (av1C) from a codec string such as 'av01.0.08M.08'
+ */
+export function buildAv1Config(codecString: string, sequenceHeader: Uint8Array | null): Bytes {
+  const [, profilePart = '0', levelPart = '08M', bitDepthPart = '08'] = codecString.split('.');
+  const profile = parseInt(profilePart, 10);
+  const level = parseInt(levelPart, 10);
+  const tier = levelPart.endsWith('H') ? 1 : 0;
+  const bitDepth = parseInt(bitDepthPart, 10);
+  const highBitDepth = bitDepth > 8 ? 1 : 0;
+  const twelveBit = bitDepth === 12 ? 1 : 0;
+
+  return concatBytes([
+    u8(0x81), // marker + version 1
+    u8((profile << 5) | level),
+    // tier, bit depth, monochrome 0, 4:2:0 chroma subsampling, unknown sample position
+    u8((tier << 7) | (highBitDepth << 6) | (twelveBit << 5) | (1 << 3) | (1 << 2)),
+    u8(0), // no initial presentation delay
+    sequenceHeader ?? new Uint8Array(0)
+  ]);
+}
+
+/**
+ * Parse the profile, level and bit depth out of a VP9 codec string such as 'vp09.00.10.08'
+ */
+export function parseVp9CodecString(codecString: string): { profile: number; level: number; bitDepth: number } {
+  const [, profile = '00', level = '10', bitDepth = '08'] = codecString.split('.');
+  return {
+    profile: parseInt(profile, 10),
+    level: parseInt(level, 10),
+    bitDepth: parseInt(bitDepth, 10)
+  };
+}
+
+/**
+ * Build an AAC-LC AudioSpecificConfig for the given sample rate and channel count
+ */
+export function buildAacConfig(sampleRate: number, numberOfChannels: number): Bytes {
+  const sampleRates = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+  const frequencyIndex = sampleRates.indexOf(sampleRate);
+  if (frequencyIndex === -1) {
+    throw new Error(`Unsupported AAC sample rate: ${sampleRate}`);
+  }
+
+  // 5 bits object type (2 = AAC-LC), 4 bits frequency index, 4 bits channel configuration
+  const config = (2 << 11) | (frequencyIndex << 7) | (numberOfChannels << 3);
+  return new Uint8Array([config >> 8, config & 0xff]);
+}
+
+/**
+ * Build an Opus identification header (OpusHead), as used for WebM CodecPrivate
+ */
+export function buildOpusHead(sampleRate: number, numberOfChannels: number): Bytes {
+  const header = new Uint8Array(11);
+  const view = new DataView(header.buffer);
+  header[0] = 1; // version
+  header[1] = numberOfChannels;
+  view.setUint16(2, 0, true); // pre-skip
+  view.setUint32(4, sampleRate, true); // input sample rate
+  view.setInt16(8, 0, true); // output gain
+  header[10] = 0; // channel mapping family (mono/stereo)
+  return concatBytes([ascii('OpusHead'), header]);
+}
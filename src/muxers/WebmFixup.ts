@@ -0,0 +1,367 @@
+/**
+ * Makes streamed WebM seekable. MediaRecorder and WebmMuxer both write an unknown-size Segment
+ * with no Duration and no Cues, since neither can look ahead; players then show no length and can't seek.
+ * This rewrites the Segment with a known size, a SeekHead, a Duration and a Cues index.
+ * Media data is never loaded as a whole: the output Blob is built from slices of the input.
+ */
+import { Bytes, concatBytes, u64 } from './bytes';
+import { EBML_IDS, ebmlElement, ebmlFloat, ebmlId, ebmlSize, ebmlUint } from './WebmMuxer';
+
+// Bytes read from the input at a time while scanning
+const READ_WINDOW = 1024 * 1024;
+
+const TAGS_ID = 0x1254c367;
+const CHAPTERS_ID = 0x1043a770;
+const ATTACHMENTS_ID = 0x1941a469;
+
+// Top-level Segment children; reaching one ends an unknown-size Cluster
+const SEGMENT_CHILDREN = new Set<number>([
+  EBML_IDS.SeekHead,
+  EBML_IDS.Info,
+  EBML_IDS.Tracks,
+  EBML_IDS.Cluster,
+  EBML_IDS.Cues,
+  TAGS_ID,
+  CHAPTERS_ID,
+  ATTACHMENTS_ID
+]);
+
+interface ElementHeader {
+  id: number;
+  size: number | null; // null for "unknown"
+  start: number;
+  dataStart: number;
+}
+
+interface ClusterInfo {
+  dataStart: number;
+  end: number; // End of the last complete child
+  cueTimes: number[]; // Keyframe timestamps to index, in TimestampScale units
+  truncated: boolean; // The data stopped mid-element, e.g. after a crash
+}
+
+// Last block timestamp and frame interval per track, to work out the duration
+interface TrackTiming {
+  last: number;
+  interval: number;
+}
+
+/**
+ * Random-access reads from a Blob through a sliding window, so scanning costs one read per window
+ */
+class BlobReader {
+  private blob: Blob;
+  private window: Uint8Array = new Uint8Array(0);
+  private windowStart: number = 0;
+
+  constructor(blob: Blob) {
+    this.blob = blob;
+  }
+
+  // Shorter than length at the end of the blob
+  async read(position: number, length: number): Promise<Uint8Array> {
+    const end = Math.min(this.blob.size, position + length);
+    if (position < this.windowStart || end > this.windowStart + this.window.byteLength) {
+      const windowEnd = Math.min(this.blob.size, position + Math.max(length, READ_WINDOW));
+      this.window = new Uint8Array(await this.blob.slice(position, windowEnd).arrayBuffer());
+      this.windowStart = position;
+    }
+    return this.window.subarray(position - this.windowStart, end - this.windowStart);
+  }
+}
+
+function vintLength(firstByte: number): number {
+  for (let length = 1; length <= 8; length++) {
+    if (firstByte & (0x80 >> (length - 1))) return length;
+  }
+  return 9; // Invalid
+}
+
+function parseHeader(bytes: Uint8Array, offset: number, position: number): ElementHeader | null {
+  if (offset >= bytes.byteLength) return null;
+
+  const idLength = vintLength(bytes[offset]);
+  if (idLength > 4 || offset + idLength >= bytes.byteLength) return null;
+
+  let id = 0;
+  for (let i = 0; i < idLength; i++) {
+    id = id * 256 + bytes[offset + i];
+  }
+
+  const sizeOffset = offset + idLength;
+  const sizeLength = vintLength(bytes[sizeOffset]);
+  if (sizeLength > 8 || sizeOffset + sizeLength > bytes.byteLength) return null;
+
+  // The length marker bit is not part of the value; all value bits set means unknown
+  const mask = 0xff >> sizeLength;
+  let size = bytes[sizeOffset] & mask;
+  let unknown = size === mask;
+  for (let i = 1; i < sizeLength; i++) {
+    size = size * 256 + bytes[sizeOffset + i];
+    unknown = unknown && bytes[sizeOffset + i] === 0xff;
+  }
+
+  return { id, size: unknown ? null : size, start: position, dataStart: position + idLength + sizeLength };
+}
+
+async function readHeader(reader: BlobReader, position: number): Promise<ElementHeader | null> {
+  // IDs are at most 4 bytes and sizes at most 8
+  return parseHeader(await reader.read(position, 12), 0, position);
+}
+
+// Children of an element already in memory, with positions relative to bytes
+function parseChildren(bytes: Uint8Array): { header: ElementHeader; data: Uint8Array }[] {
+  const children: { header: ElementHeader; data: Uint8Array }[] = [];
+  let offset = 0;
+  while (offset < bytes.byteLength) {
+    const header = parseHeader(bytes, offset, offset);
+    if (!header || header.size === null || header.dataStart + header.size > bytes.byteLength) break;
+    children.push({ header, data: bytes.subarray(header.dataStart, header.dataStart + header.size) });
+    offset = header.dataStart + header.size;
+  }
+  return children;
+}
+
+function readUint(bytes: Uint8Array): number {
+  let value = 0;
+  for (const byte of bytes) {
+    value = value * 256 + byte;
+  }
+  return value;
+}
+
+// Track number, timestamp relative to the cluster and flags at the start of a (Simple)Block
+function parseBlockHeader(bytes: Uint8Array): { track: number; timestamp: number; flags: number } | null {
+  const trackLength = vintLength(bytes[0]);
+  if (trackLength > 8 || bytes.byteLength < trackLength + 3) return null;
+
+  let track = bytes[0] & (0xff >> trackLength);
+  for (let i = 1; i < trackLength; i++) {
+    track = track * 256 + bytes[i];
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset + trackLength, 3);
+  return { track, timestamp: view.getInt16(0), flags: view.getUint8(2) };
+}
+
+function recordBlock(timings: Map<number, TrackTiming>, track: number, timestamp: number, duration?: number): void {
+  const timing = timings.get(track);
+  if (!timing) {
+    timings.set(track, { last: timestamp, interval: duration ?? 0 });
+  } else if (timestamp >= timing.last) {
+    timing.interval = duration ?? (timestamp - timing.last || timing.interval);
+    timing.last = timestamp;
+  }
+}
+
+async function scanCluster(
+  reader: BlobReader,
+  cluster: ElementHeader,
+  segmentEnd: number,
+  cueTrack: number,
+  indexEveryKeyframe: boolean,
+  timings: Map<number, TrackTiming>
+): Promise<ClusterInfo> {
+  const clusterEnd = cluster.size === null ? segmentEnd : Math.min(segmentEnd, cluster.dataStart + cluster.size);
+  const info: ClusterInfo = { dataStart: cluster.dataStart, end: cluster.dataStart, cueTimes: [], truncated: false };
+  let clusterTimestamp = 0;
+  let position = cluster.dataStart;
+
+  const addBlock = (block: { track: number; timestamp: number }, keyFrame: boolean, duration?: number) => {
+    const timestamp = clusterTimestamp + block.timestamp;
+    recordBlock(timings, block.track, timestamp, duration);
+    if (keyFrame && block.track === cueTrack && (indexEveryKeyframe || info.cueTimes.length === 0)) {
+      info.cueTimes.push(timestamp);
+    }
+  };
+
+  while (position < clusterEnd) {
+    const child = await readHeader(reader, position);
+
+    // An unknown-size cluster runs until the next top-level element
+    if (child && cluster.size === null && SEGMENT_CHILDREN.has(child.id)) break;
+
+    if (!child || child.size === null || child.dataStart + child.size > clusterEnd) {
+      info.truncated = true;
+      break;
+    }
+
+    const childEnd = child.dataStart + child.size;
+
+    if (child.id === EBML_IDS.Timestamp) {
+      clusterTimestamp = readUint(await reader.read(child.dataStart, child.size));
+    } else if (child.id === EBML_IDS.SimpleBlock) {
+      const block = parseBlockHeader(await reader.read(child.dataStart, 12));
+      if (block) addBlock(block, (block.flags & 0x80) !== 0);
+    } else if (child.id === EBML_IDS.BlockGroup) {
+      // A Block is a keyframe unless the group references another frame; read the group minus the frame data
+      let block: { track: number; timestamp: number } | null = null;
+      let duration: number | undefined;
+      let keyFrame = true;
+      let groupPosition = child.dataStart;
+      while (groupPosition < childEnd) {
+        const groupChild = await readHeader(reader, groupPosition);
+        if (!groupChild || groupChild.size === null) break;
+        if (groupChild.id === EBML_IDS.Block) {
+          block = parseBlockHeader(await reader.read(groupChild.dataStart, 12));
+        } else if (groupChild.id === EBML_IDS.BlockDuration) {
+          duration = readUint(await reader.read(groupChild.dataStart, groupChild.size));
+        } else if (groupChild.id === EBML_IDS.ReferenceBlock) {
+          keyFrame = false;
+        }
+        groupPosition = groupChild.dataStart + groupChild.size;
+      }
+      if (block) addBlock(block, keyFrame, duration);
+    }
+
+    position = childEnd;
+    info.end = childEnd;
+  }
+
+  return info;
+}
+
+function seekEntry(id: number, position: number): Bytes {
+  return ebmlElement(EBML_IDS.Seek,
+    ebmlElement(EBML_IDS.SeekID, ebmlId(id)),
+    ebmlElement(EBML_IDS.SeekPosition, u64(position)) // Fixed width, so sizes don't depend on positions
+  );
+}
+
+/**
+ * Rewrite a WebM recording with its duration and a cue index so players can show its length and seek.
+ * Recordings cut short by a crash are kept up to the last complete block.
+ */
+export async function makeWebmSeekable(blob: Blob): Promise<Blob> {
+  const reader = new BlobReader(blob);
+
+  const ebml = await readHeader(reader, 0);
+  if (!ebml || ebml.id !== EBML_IDS.EBML || ebml.size === null) {
+    throw new Error('Not a WebM file');
+  }
+  const segment = await readHeader(reader, ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== EBML_IDS.Segment) {
+    throw new Error('WebM file has no Segment');
+  }
+  const segmentEnd = segment.size === null ? blob.size : Math.min(blob.size, segment.dataStart + segment.size);
+
+  let infoChildren: Uint8Array[] = [];
+  let tracks: Bytes | null = null;
+  let cueTrack = 0;
+  let indexEveryKeyframe = false;
+  const extras: Blob[] = []; // Other top-level elements, kept as they are
+  const clusters: ClusterInfo[] = [];
+  const timings = new Map<number, TrackTiming>();
+
+  let position = segment.dataStart;
+  while (position < segmentEnd) {
+    const header = await readHeader(reader, position);
+    if (!header) break;
+
+    if (header.id === EBML_IDS.Cluster) {
+      if (!tracks) {
+        throw new Error('WebM Cluster found before Tracks');
+      }
+      const cluster = await scanCluster(reader, header, segmentEnd, cueTrack, indexEveryKeyframe, timings);
+      if (cluster.end > cluster.dataStart) {
+        clusters.push(cluster);
+      }
+      if (cluster.truncated) break;
+      position = cluster.end;
+      continue;
+    }
+
+    if (header.size === null || header.dataStart + header.size > segmentEnd) break;
+    const end = header.dataStart + header.size;
+
+    if (header.id === EBML_IDS.Info) {
+      // Everything but the Duration, which is replaced
+      const children = parseChildren((await reader.read(header.dataStart, header.size)).slice());
+      infoChildren = [];
+      for (const { header: child, data } of children) {
+        if (child.id !== EBML_IDS.Duration && child.id !== EBML_IDS.Void) {
+          infoChildren.push(concatBytes([ebmlId(child.id), ebmlSize(data.byteLength), data]));
+        }
+      }
+    } else if (header.id === EBML_IDS.Tracks) {
+      tracks = (await reader.read(header.start, end - header.start)).slice();
+
+      // Index video keyframes; an audio-only recording gets one cue per cluster
+      const entries = parseChildren(tracks.subarray(header.dataStart - header.start))
+        .filter(({ header: child }) => child.id === EBML_IDS.TrackEntry)
+        .map(({ data }) => {
+          const fields = parseChildren(data);
+          const field = (id: number) => fields.find(({ header: child }) => child.id === id)?.data;
+          const number = field(EBML_IDS.TrackNumber);
+          const type = field(EBML_IDS.TrackType);
+          return { number: number ? readUint(number) : 0, type: type ? readUint(type) : 0 };
+        });
+      const video = entries.find(entry => entry.type === 1);
+      cueTrack = video?.number ?? entries[0]?.number ?? 0;
+      indexEveryKeyframe = !!video;
+    } else if (header.id !== EBML_IDS.SeekHead && header.id !== EBML_IDS.Cues && header.id !== EBML_IDS.Void) {
+      extras.push(blob.slice(header.start, end));
+    }
+
+    position = end;
+  }
+
+  if (!tracks || clusters.length === 0) {
+    throw new Error('WebM file has no media data');
+  }
+
+  // The end of the last frame on any track
+  let duration = 0;
+  for (const timing of timings.values()) {
+    duration = Math.max(duration, timing.last + timing.interval);
+  }
+
+  const info = ebmlElement(EBML_IDS.Info, ...infoChildren, ebmlFloat(EBML_IDS.Duration, duration));
+  const clusterHeaders = clusters.map(cluster =>
+    concatBytes([ebmlId(EBML_IDS.Cluster), ebmlSize(cluster.end - cluster.dataStart)])
+  );
+
+  // Positions are relative to the start of the Segment's data and written with a fixed width,
+  // so every element's size is known before any position is
+  const buildCues = (clusterPositions: number[]) => ebmlElement(EBML_IDS.Cues,
+    ...clusters.flatMap((cluster, index) => cluster.cueTimes.map(time => ebmlElement(EBML_IDS.CuePoint,
+      ebmlUint(EBML_IDS.CueTime, Math.max(0, time)),
+      ebmlElement(EBML_IDS.CueTrackPositions,
+        ebmlUint(EBML_IDS.CueTrack, cueTrack),
+        ebmlElement(EBML_IDS.CueClusterPosition, u64(clusterPositions[index]))
+      )
+    )))
+  );
+  const buildSeekHead = (infoPosition: number, tracksPosition: number, cuesPosition: number) =>
+    ebmlElement(EBML_IDS.SeekHead,
+      seekEntry(EBML_IDS.Info, infoPosition),
+      seekEntry(EBML_IDS.Tracks, tracksPosition),
+      seekEntry(EBML_IDS.Cues, cuesPosition)
+    );
+
+  const infoPosition = buildSeekHead(0, 0, 0).byteLength;
+  const tracksPosition = infoPosition + info.byteLength;
+  const cuesPosition = tracksPosition + tracks.byteLength + extras.reduce((total, extra) => total + extra.size, 0);
+
+  const clusterPositions: number[] = [];
+  let clusterPosition = cuesPosition + buildCues(clusters.map(() => 0)).byteLength;
+  clusters.forEach((cluster, index) => {
+    clusterPositions.push(clusterPosition);
+    clusterPosition += clusterHeaders[index].byteLength + cluster.end - cluster.dataStart;
+  });
+
+  const seekHead = buildSeekHead(infoPosition, tracksPosition, cuesPosition);
+  const cues = buildCues(clusterPositions);
+
+  return new Blob([
+    blob.slice(0, segment.start),
+    ebmlId(EBML_IDS.Segment),
+    ebmlSize(clusterPosition),
+    seekHead,
+    info,
+    tracks,
+    ...extras,
+    cues,
+    ...clusters.flatMap((cluster, index) => [clusterHeaders[index], blob.slice(cluster.dataStart, cluster.end)])
+  ], { type: blob.type });
+}
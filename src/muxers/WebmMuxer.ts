@@ -0,0 +1,313 @@
+/**
+ * WebM (Matroska) muxer for WebCodecs output
+ * Writes the EBML header and an unknown-size Segment up front, then one Cluster per GOP,
+ * so output can be streamed as it is produced
+ */
+import { Bytes, concatBytes, f64, i16, u8, utf8 } from './bytes';
+import { Muxer, MuxerOptions, buildAv1Config, buildOpusHead, copyChunkData, extractAv1SequenceHeader } from './Muxer';
+
+// Matroska element IDs
+export const EBML_IDS = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+  Void: 0xec
+} as const;
+
+const VIDEO_TRACK_NUMBER = 1;
+const AUDIO_TRACK_NUMBER = 2;
+
+// Cluster boundaries allowed to wait for the audio track before flushing anyway
+const MAX_PENDING_BOUNDARIES = 2;
+
+// Segment size placeholder meaning "unknown", so the segment can grow while streaming
+const UNKNOWN_SIZE = new Uint8Array([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]);
+
+const CODEC_IDS = {
+  vp8: 'V_VP8',
+  vp9: 'V_VP9',
+  av1: 'V_AV1'
+} as const;
+
+export function ebmlId(id: number): Bytes {
+  const length = id >= 0x1000000 ? 4 : id >= 0x10000 ? 3 : id >= 0x100 ? 2 : 1;
+  const bytes = new Uint8Array(length);
+  for (let i = 0; i < length; i++) {
+    bytes[i] = (id >>> (8 * (length - 1 - i))) & 0xff;
+  }
+  return bytes;
+}
+
+export function ebmlSize(size: number): Bytes {
+  // Pick the shortest variable-length integer that can hold the size (all-ones is reserved)
+  let length = 1;
+  while (length < 8 && size >= Math.pow(2, 7 * length) - 1) {
+    length++;
+  }
+
+  const bytes = new Uint8Array(length);
+  let remaining = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  bytes[0] |= 1 << (8 - length);
+  return bytes;
+}
+
+export function ebmlElement(id: number, ...payload: Uint8Array[]): Bytes {
+  const data = concatBytes(payload);
+  return concatBytes([ebmlId(id), ebmlSize(data.byteLength), data]);
+}
+
+export function ebmlUint(id: number, value: number): Bytes {
+  const bytes: number[] = [];
+  let remaining = value;
+  do {
+    bytes.unshift(remaining % 256);
+    remaining = Math.floor(remaining / 256);
+  } while (remaining > 0);
+  return ebmlElement(id, new Uint8Array(bytes));
+}
+
+export function ebmlFloat(id: number, value: number): Bytes {
+  return ebmlElement(id, f64(value));
+}
+
+export function ebmlString(id: number, value: string): Bytes {
+  return ebmlElement(id, utf8(value));
+}
+
+interface PendingBlock {
+  track: number;
+  data: Bytes;
+  timestamp: number; // Milliseconds, relative to the first video block
+  keyFrame: boolean;
+}
+
+export class WebmMuxer implements Muxer {
+  private options: MuxerOptions;
+  private videoBlocks: PendingBlock[] = [];
+  private audioBlocks: PendingBlock[] = [];
+  private boundaries: number[] = [];
+  private lastAudioTimestamp: number = -Infinity;
+  private headerWritten: boolean = false;
+  private firstTimestamp: number | null = null;
+  private decoderDescription: Uint8Array | null = null;
+
+  constructor(options: MuxerOptions) {
+    if (options.codec === 'h264') {
+      throw new Error('H.264 is not supported in WebM output');
+    }
+    if (options.audio && options.audio.codec !== 'opus') {
+      throw new Error('WebM audio must be Opus');
+    }
+    this.options = options;
+  }
+
+  addVideoChunk(chunk: EncodedVideoChunk, metadata?: EncodedVideoChunkMetadata): void {
+    const description = metadata?.decoderConfig?.description;
+    if (description && !this.decoderDescription) {
+      this.decoderDescription = ArrayBuffer.isView(description)
+        ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength).slice()
+        : new Uint8Array(description).slice();
+    }
+
+    const data = copyChunkData(chunk);
+    const keyFrame = chunk.type === 'key';
+
+    if (!this.headerWritten) {
+      // Playback has to start on a keyframe, so anything before the first one is unusable
+      if (!keyFrame) return;
+      this.writeHeader(data);
+      this.firstTimestamp = chunk.timestamp;
+    }
+
+    const timestamp = Math.round((chunk.timestamp - this.firstTimestamp!) / 1000);
+
+    // Start a new cluster on every keyframe so seeking lands on a decodable frame
+    if (keyFrame && this.videoBlocks.length > 0) {
+      this.boundaries.push(timestamp);
+    }
+
+    this.videoBlocks.push({ track: VIDEO_TRACK_NUMBER, data, timestamp, keyFrame });
+    this.flushReadyClusters();
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk): void {
+    // Audio is timed against the first video frame, so nothing can be placed before it arrives
+    if (!this.options.audio || this.firstTimestamp === null) return;
+
+    const timestamp = Math.round((chunk.timestamp - this.firstTimestamp) / 1000);
+    if (timestamp < 0) return;
+
+    this.audioBlocks.push({ track: AUDIO_TRACK_NUMBER, data: copyChunkData(chunk), timestamp, keyFrame: true });
+    this.lastAudioTimestamp = timestamp;
+    this.flushReadyClusters();
+  }
+
+  finalize(): void {
+    this.flushClusters(Infinity);
+  }
+
+  private flushReadyClusters(): void {
+    // Wait until audio has caught up with a boundary so its blocks never land in an earlier cluster,
+    // but don't hold video back forever if the audio track stalls
+    while (
+      this.boundaries.length > 0 &&
+      (!this.options.audio || this.lastAudioTimestamp >= this.boundaries[0] || this.boundaries.length > MAX_PENDING_BOUNDARIES)
+    ) {
+      this.flushClusters(this.boundaries.shift()!);
+    }
+  }
+
+  private takeBlocks(blocks: PendingBlock[], until: number): [PendingBlock[], PendingBlock[]] {
+    const index = blocks.findIndex(block => block.timestamp >= until);
+    return index === -1 ? [blocks, []] : [blocks.slice(0, index), blocks.slice(index)];
+  }
+
+  private flushClusters(until: number): void {
+    const [video, remainingVideo] = this.takeBlocks(this.videoBlocks, until);
+    const [audio, remainingAudio] = this.takeBlocks(this.audioBlocks, until);
+    this.videoBlocks = remainingVideo;
+    this.audioBlocks = remainingAudio;
+
+    // Interleave both tracks in timestamp order, video first on ties
+    const blocks = [...video, ...audio].sort((a, b) => a.timestamp - b.timestamp || a.track - b.track);
+
+    // Block timestamps are signed 16-bit offsets from the cluster, so split long runs
+    while (blocks.length > 0) {
+      const clusterTimestamp = blocks[0].timestamp;
+      let count = blocks.findIndex(block => block.timestamp - clusterTimestamp > 0x7fff);
+      if (count === -1) count = blocks.length;
+      this.writeCluster(clusterTimestamp, blocks.splice(0, count));
+    }
+  }
+
+  private writeHeader(firstKeyFrame: Uint8Array): void {
+    const { codec, codecString, width, height, fps, audio } = this.options;
+
+    const header = ebmlElement(EBML_IDS.EBML,
+      ebmlUint(EBML_IDS.EBMLVersion, 1),
+      ebmlUint(EBML_IDS.EBMLReadVersion, 1),
+      ebmlUint(EBML_IDS.EBMLMaxIDLength, 4),
+      ebmlUint(EBML_IDS.EBMLMaxSizeLength, 8),
+      ebmlString(EBML_IDS.DocType, 'webm'),
+      ebmlUint(EBML_IDS.DocTypeVersion, 4),
+      ebmlUint(EBML_IDS.DocTypeReadVersion, 2)
+    );
+
+    const info = ebmlElement(EBML_IDS.Info,
+      ebmlUint(EBML_IDS.TimestampScale, 1000000), // Timestamps in milliseconds
+      ebmlString(EBML_IDS.MuxingApp, 'canvas-recorder'),
+      ebmlString(EBML_IDS.WritingApp, 'canvas-recorder')
+    );
+
+    const videoEntry: Uint8Array[] = [
+      ebmlUint(EBML_IDS.TrackNumber, VIDEO_TRACK_NUMBER),
+      ebmlUint(EBML_IDS.TrackUID, VIDEO_TRACK_NUMBER),
+      ebmlUint(EBML_IDS.TrackType, 1), // Video
+      ebmlUint(EBML_IDS.FlagLacing, 0),
+      ebmlString(EBML_IDS.CodecID, CODEC_IDS[codec as keyof typeof CODEC_IDS]),
+      ebmlUint(EBML_IDS.DefaultDuration, Math.round(1000000000 / fps)),
+      ebmlElement(EBML_IDS.Video,
+        ebmlUint(EBML_IDS.PixelWidth, width),
+        ebmlUint(EBML_IDS.PixelHeight, height)
+      )
+    ];
+
+    if (codec === 'av1') {
+      const av1Config = this.decoderDescription ?? buildAv1Config(codecString, extractAv1SequenceHeader(firstKeyFrame));
+      videoEntry.push(ebmlElement(EBML_IDS.CodecPrivate, av1Config));
+    }
+
+    const trackEntries = [ebmlElement(EBML_IDS.TrackEntry, ...videoEntry)];
+
+    if (audio) {
+      trackEntries.push(ebmlElement(EBML_IDS.TrackEntry,
+        ebmlUint(EBML_IDS.TrackNumber, AUDIO_TRACK_NUMBER),
+        ebmlUint(EBML_IDS.TrackUID, AUDIO_TRACK_NUMBER),
+        ebmlUint(EBML_IDS.TrackType, 2), // Audio
+        ebmlUint(EBML_IDS.FlagLacing, 0),
+        ebmlString(EBML_IDS.CodecID, 'A_OPUS'),
+        ebmlElement(EBML_IDS.CodecPrivate, buildOpusHead(audio.sampleRate, audio.numberOfChannels)),
+        ebmlUint(EBML_IDS.CodecDelay, 0),
+        ebmlUint(EBML_IDS.SeekPreRoll, 80000000), // 80ms, as recommended for Opus
+        ebmlElement(EBML_IDS.Audio,
+          ebmlFloat(EBML_IDS.SamplingFrequency, audio.sampleRate),
+          ebmlUint(EBML_IDS.Channels, audio.numberOfChannels)
+        )
+      ));
+    }
+
+    const tracks = ebmlElement(EBML_IDS.Tracks, ...trackEntries);
+
+    this.options.onData(concatBytes([
+      header,
+      ebmlId(EBML_IDS.Segment),
+      UNKNOWN_SIZE,
+      info,
+      tracks
+    ]));
+    this.headerWritten = true;
+  }
+
+  private writeCluster(clusterTimestamp: number, blocks: PendingBlock[]): void {
+    const simpleBlocks = blocks.map(block => ebmlElement(EBML_IDS.SimpleBlock,
+      u8(0x80 | block.track), // Track number as a variable-length integer
+      i16(block.timestamp - clusterTimestamp),
+      u8(block.keyFrame ? 0x80 : 0x00),
+      block.data
+    ));
+
+    this.options.onData(ebmlElement(EBML_IDS.Cluster,
+      ebmlUint(EBML_IDS.Timestamp, clusterTimestamp),
+      ...simpleBlocks
+    ));
+  }
+}
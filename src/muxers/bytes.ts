@@ -0,0 +1,83 @@
+/**
+ * Byte helpers shared by the MP4 and WebM muxers
+ */
+
+export type Bytes = Uint8Array<ArrayBuffer>;
+
+export function concatBytes(parts: Uint8Array[]): Bytes {
+  let length = 0;
+  for (const part of parts) {
+    length += part.byteLength;
+  }
+
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.byteLength;
+  }
+  return result;
+}
+
+export function u8(value: number): Bytes {
+  return new Uint8Array([value & 0xff]);
+}
+
+export function u16(value: number): Bytes {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setUint16(0, value);
+  return bytes;
+}
+
+export function i16(value: number): Bytes {
+  const bytes = new Uint8Array(2);
+  new DataView(bytes.buffer).setInt16(0, value);
+  return bytes;
+}
+
+export function u24(value: number): Bytes {
+  return new Uint8Array([(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]);
+}
+
+export function u32(value: number): Bytes {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0);
+  return bytes;
+}
+
+export function i32(value: number): Bytes {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value);
+  return bytes;
+}
+
+export function u64(value: number): Bytes {
+  const bytes = new Uint8Array(8);
+  const view = new DataView(bytes.buffer);
+  // Split into two 32-bit halves so values above 2^32 stay exact without BigInt
+  view.setUint32(0, Math.floor(value / 0x100000000));
+  view.setUint32(4, value >>> 0);
+  return bytes;
+}
+
+export function f64(value: number): Bytes {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return bytes;
+}
+
+export function ascii(text: string): Bytes {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+export function utf8(text: string): Bytes {
+  return new TextEncoder().encode(text) as Bytes;
+}
+
+export function zeros(length: number): Bytes {
+  return new Uint8Array(length);
+}
@@ -0,0 +1,50 @@
+/**
+ * Pluggable destinations for encoded recording chunks
+ */
+import { FileHandleSink } from './FileHandleSink';
+import { MemorySink } from './MemorySink';
+import { OPFSSink } from './OPFSSink';
+import { WritableStreamSink } from './WritableStreamSink';
+
+export type ChunkSinkType = 'memory' | 'opfs' | 'file' | 'stream';
+
+export interface SinkResult {
+  blob: Blob; // The whole recording; read from disk for file sinks, empty for stream sinks
+  file?: FileSystemFileHandle; // The persisted file, for file sinks
+}
+
+export interface ChunkSink {
+  open(mimeType: string): Promise<void>; // Called once per recording, before the first chunk
+  write(chunk: Blob): Promise<void>; // Chunks arrive in order, one write at a time
+  close(): Promise<SinkResult>;
+  abort(): Promise<void>; // The recording failed; discard what was written where possible
+  rewrite?(blob: Blob): Promise<SinkResult>; // Replace the closed recording with a post-processed one; left out when the data can't be replaced
+}
+
+export type SinkOptions =
+  | { type: 'memory' }
+  | { type: 'opfs'; fileName?: string; directory?: string } // Origin private file system
+  | { type: 'file'; handle: FileSystemFileHandle } // e.g. from showSaveFilePicker()
+  | { type: 'stream'; stream: WritableStream<Uint8Array> }; // Receives the raw bytes; usable for one recording
+
+/**
+ * Create the sink for one recording; custom ChunkSink objects are used as they are
+ */
+export function createChunkSink(options: SinkOptions | ChunkSink = { type: 'memory' }): ChunkSink {
+  if (!('type' in options)) {
+    return options;
+  }
+
+  switch (options.type) {
+    case 'memory':
+      return new MemorySink();
+    case 'opfs':
+      return new OPFSSink(options.fileName, options.directory);
+    case 'file':
+      return new FileHandleSink(options.handle);
+    case 'stream':
+      return new WritableStreamSink(options.stream);
+    default:
+      throw new Error(`Unknown sink type: ${(options as { type: string }).type}`);
+  }
+}
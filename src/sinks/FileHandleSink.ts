@@ -0,0 +1,79 @@
+/**
+ * Streams chunks into a file through the File System Access API, so only
+ * chunks still waiting to be written are held in memory
+ */
+import { ChunkSink, SinkResult } from './ChunkSink';
+
+export class FileHandleSink implements ChunkSink {
+  protected handle: FileSystemFileHandle | null;
+  private writable: FileSystemWritableFileStream | null = null;
+  private mimeType: string = '';
+
+  constructor(handle: FileSystemFileHandle | null) {
+    this.handle = handle;
+  }
+
+  // Subclasses that pick the file themselves override this
+  protected async getHandle(_mimeType: string): Promise<FileSystemFileHandle> {
+    return this.handle!;
+  }
+
+  async open(mimeType: string): Promise<void> {
+    this.mimeType = mimeType;
+    this.handle = await this.getHandle(mimeType);
+
+    if (typeof this.handle.createWritable !== 'function') {
+      throw new Error('Writing files is not supported in this browser');
+    }
+    // Replaces any earlier contents of the file
+    this.writable = await this.handle.createWritable();
+  }
+
+  async write(chunk: Blob): Promise<void> {
+    if (!this.writable) {
+      throw new Error('File sink is not open');
+    }
+    await this.writable.write(chunk);
+  }
+
+  async close(): Promise<SinkResult> {
+    if (!this.writable || !this.handle) {
+      throw new Error('File sink is not open');
+    }
+    await this.writable.close();
+    this.writable = null;
+
+    return this.readResult(this.handle);
+  }
+
+  async rewrite(blob: Blob): Promise<SinkResult> {
+    if (!this.handle) {
+      throw new Error('File sink has no file');
+    }
+
+    // The new contents go to a temporary file that only replaces the original on close,
+    // so a blob sliced from the original stays readable while it is written
+    const writable = await this.handle.createWritable();
+    try {
+      await writable.write(blob);
+      await writable.close();
+    } catch (error) {
+      await writable.abort().catch(() => undefined);
+      throw error;
+    }
+    return this.readResult(this.handle);
+  }
+
+  private async readResult(handle: FileSystemFileHandle): Promise<SinkResult> {
+    // A File from the handle is read from disk on demand rather than loaded into memory;
+    // its type comes from the file name, so label it with the recording's actual type
+    const file = await handle.getFile();
+    return { blob: file.slice(0, file.size, this.mimeType), file: handle };
+  }
+
+  async abort(): Promise<void> {
+    // Aborting a writable stream discards everything written to it
+    await this.writable?.abort().catch(() => undefined);
+    this.writable = null;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Keeps every chunk in memory and joins them into one Blob when the recording stops
+ */
+import { ChunkSink, SinkResult } from './ChunkSink';
+
+export class MemorySink implements ChunkSink {
+  private chunks: Blob[] = [];
+  private mimeType: string = '';
+
+  async open(mimeType: string): Promise<void> {
+    this.chunks = [];
+    this.mimeType = mimeType;
+  }
+
+  async write(chunk: Blob): Promise<void> {
+    this.chunks.push(chunk);
+  }
+
+  async close(): Promise<SinkResult> {
+    const blob = new Blob(this.chunks, { type: this.mimeType });
+    this.chunks = [];
+    return { blob };
+  }
+
+  async rewrite(blob: Blob): Promise<SinkResult> {
+    return { blob };
+  }
+
+  async abort(): Promise<void> {
+    this.chunks = [];
+  }
+}
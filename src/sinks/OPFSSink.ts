@@ -0,0 +1,29 @@
+/**
+ * Streams chunks into a file in the origin private file system, which needs no permission prompt
+ */
+import { FileHandleSink } from './FileHandleSink';
+
+export class OPFSSink extends FileHandleSink {
+  private fileName?: string;
+  private directory?: string;
+
+  constructor(fileName?: string, directory?: string) {
+    super(null);
+    this.fileName = fileName;
+    this.directory = directory;
+  }
+
+  protected async getHandle(mimeType: string): Promise<FileSystemFileHandle> {
+    if (typeof navigator === 'undefined' || !navigator.storage?.getDirectory) {
+      throw new Error('The origin private file system is not supported in this browser');
+    }
+
+    let directory = await navigator.storage.getDirectory();
+    if (this.directory) {
+      directory = await directory.getDirectoryHandle(this.directory, { create: true });
+    }
+
+    const extension = mimeType.startsWith('video/mp4') ? 'mp4' : 'webm';
+    return directory.getFileHandle(this.fileName ?? `recording-${Date.now()}.${extension}`, { create: true });
+  }
+}
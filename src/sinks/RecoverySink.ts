@@ -0,0 +1,91 @@
+/**
+ * Wraps another sink and mirrors every chunk into IndexedDB, so a recording
+ * interrupted by a crash or reload can be recovered later
+ */
+import { RecoverySessionWriter } from '../storage/RecoveryStore';
+import { ChunkSink, SinkResult } from './ChunkSink';
+
+export interface RecoveryInfo {
+  fps: number;
+  width: number;
+  height: number;
+  getDuration: () => number; // Milliseconds recorded so far, excluding pauses
+}
+
+function createSessionId(): string {
+  // randomUUID is only available in secure contexts
+  return typeof crypto !== 'undefined' && crypto.randomUUID
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export class RecoverySink implements ChunkSink {
+  private sink: ChunkSink;
+  private info: RecoveryInfo;
+  private writer: RecoverySessionWriter | null = null;
+  private writerFailed: boolean = false;
+  readonly rewrite?: (blob: Blob) => Promise<SinkResult>;
+
+  constructor(sink: ChunkSink, info: RecoveryInfo) {
+    this.sink = sink;
+    this.info = info;
+    if (sink.rewrite) {
+      this.rewrite = (blob) => sink.rewrite!(blob);
+    }
+  }
+
+  async open(mimeType: string): Promise<void> {
+    await this.sink.open(mimeType);
+
+    const { fps, width, height } = this.info;
+    const writer = new RecoverySessionWriter({ id: createSessionId(), mimeType, fps, width, height, startTime: Date.now() });
+    this.writerFailed = false;
+
+    // Recovery is a safety net; without IndexedDB the recording still goes ahead
+    try {
+      await writer.open();
+      this.writer = writer;
+    } catch (error) {
+      console.warn('Crash recovery is unavailable for this recording:', error);
+      writer.close();
+    }
+  }
+
+  async write(chunk: Blob): Promise<void> {
+    // Save the chunk first, so it is recoverable even if the wrapped sink fails to write it
+    if (this.writer && !this.writerFailed) {
+      try {
+        await this.writer.write(chunk, this.info.getDuration());
+      } catch (error) {
+        // Usually a full quota; what was saved so far stays recoverable
+        this.writerFailed = true;
+        console.warn('Failed to save recording chunk for recovery:', error);
+      }
+    }
+
+    await this.sink.write(chunk);
+  }
+
+  async close(): Promise<SinkResult> {
+    const result = await this.sink.close();
+
+    // The recording is safely in the wrapped sink, so the copy is no longer needed
+    await this.writer?.discard().catch((error) => {
+      console.warn('Failed to remove recovery session:', error);
+    });
+    this.writer = null;
+
+    return result;
+  }
+
+  async abort(): Promise<void> {
+    // Keep the saved session: after a failed recording it may be the only copy
+    if (this.writer?.session.chunkCount === 0) {
+      await this.writer.discard().catch(() => undefined);
+    } else {
+      this.writer?.close();
+    }
+    this.writer = null;
+    await this.sink.abort();
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Passes the raw bytes of every chunk on to a caller-supplied WritableStream,
+ * e.g. a network upload or a FileSystemWritableFileStream
+ */
+import { ChunkSink, SinkResult } from './ChunkSink';
+
+export class WritableStreamSink implements ChunkSink {
+  private stream: WritableStream<Uint8Array>;
+  private writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+  private mimeType: string = '';
+
+  constructor(stream: WritableStream<Uint8Array>) {
+    this.stream = stream;
+  }
+
+  async open(mimeType: string): Promise<void> {
+    if (this.stream.locked) {
+      throw new Error('The sink stream is already in use; pass a new stream for each recording');
+    }
+    this.mimeType = mimeType;
+    this.writer = this.stream.getWriter();
+  }
+
+  async write(chunk: Blob): Promise<void> {
+    if (!this.writer) {
+      throw new Error('Stream sink is not open');
+    }
+    // Respect the stream's backpressure before handing over more data
+    await this.writer.ready;
+    await this.writer.write(new Uint8Array(await chunk.arrayBuffer()));
+  }
+
+  async close(): Promise<SinkResult> {
+    if (!this.writer) {
+      throw new Error('Stream sink is not open');
+    }
+    await this.writer.close();
+    this.writer = null;
+
+    // The data went to the caller's stream, so there is nothing to hand back
+    return { blob: new Blob([], { type: this.mimeType }) };
+  }
+
+  async abort(): Promise<void> {
+    await this.writer?.abort(new Error('Recording failed')).catch(() => undefined);
+    this.writer = null;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * IndexedDB store of in-progress recordings, so a crash or reload doesn't lose them
+ */
+import { openDatabase, requestToPromise, transactionDone } from './indexedDB';
+
+const DB_NAME = 'canvas-recorder-recovery';
+const SESSION_STORE = 'sessions';
+const CHUNK_STORE = 'chunks'; // Keyed by [sessionId, chunk index]
+
+// Sessions being written by recorders on this page, which aren't up for recovery
+const activeSessions = new Set<string>();
+
+export interface RecoverableSession {
+  id: string;
+  mimeType: string;
+  fps: number;
+  width: number;
+  height: number;
+  startTime: number; // Date.now() when recording started
+  updatedAt: number; // Date.now() of the last saved chunk
+  duration: number; // Milliseconds recorded up to the last saved chunk, excluding pauses
+  chunkCount: number;
+  size: number; // Bytes saved
+}
+
+function openRecoveryDatabase(): Promise<IDBDatabase> {
+  return openDatabase(DB_NAME, 1, (db) => {
+    db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+    db.createObjectStore(CHUNK_STORE);
+  });
+}
+
+async function withDatabase<T>(callback: (db: IDBDatabase) => Promise<T>): Promise<T> {
+  const db = await openRecoveryDatabase();
+  try {
+    return await callback(db);
+  } finally {
+    db.close();
+  }
+}
+
+// All chunk keys of one session, in chunk order
+function sessionChunkRange(id: string): IDBKeyRange {
+  return IDBKeyRange.bound([id, 0], [id, Infinity]);
+}
+
+/**
+ * Writes one recording's chunks as they arrive. Keeps its database connection open for the whole recording.
+ */
+export class RecoverySessionWriter {
+  readonly session: RecoverableSession;
+  private db: IDBDatabase | null = null;
+
+  constructor(session: Omit<RecoverableSession, 'updatedAt' | 'duration' | 'chunkCount' | 'size'>) {
+    this.session = { ...session, updatedAt: session.startTime, duration: 0, chunkCount: 0, size: 0 };
+  }
+
+  async open(): Promise<void> {
+    this.db = await openRecoveryDatabase();
+    activeSessions.add(this.session.id);
+    const transaction = this.db.transaction(SESSION_STORE, 'readwrite');
+    transaction.objectStore(SESSION_STORE).put(this.session);
+    await transactionDone(transaction);
+  }
+
+  async write(chunk: Blob, duration: number): Promise<void> {
+    if (!this.db) {
+      throw new Error('Recovery session is not open');
+    }
+
+    const session = this.session;
+    session.updatedAt = Date.now();
+    session.duration = duration;
+    session.size += chunk.size;
+
+    // The chunk and the session totals are committed together, so a crash never leaves them out of step
+    const transaction = this.db.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+    transaction.objectStore(CHUNK_STORE).put(chunk, [session.id, session.chunkCount]);
+    transaction.objectStore(SESSION_STORE).put({ ...session, chunkCount: session.chunkCount + 1 });
+    await transactionDone(transaction);
+    session.chunkCount++;
+  }
+
+  // The recording finished or failed on its own terms; it no longer needs recovering
+  async discard(): Promise<void> {
+    this.close();
+    await discardSession(this.session.id);
+  }
+
+  close(): void {
+    activeSessions.delete(this.session.id);
+    this.db?.close();
+    this.db = null;
+  }
+}
+
+/**
+ * Sessions left behind by recordings that never stopped, newest first
+ */
+export async function listSessions(): Promise<RecoverableSession[]> {
+  if (typeof indexedDB === 'undefined') return [];
+
+  const sessions = await withDatabase(db =>
+    requestToPromise<RecoverableSession[]>(db.transaction(SESSION_STORE, 'readonly').objectStore(SESSION_STORE).getAll())
+  );
+  return sessions.filter(session => !activeSessions.has(session.id)).sort((a, b) => b.startTime - a.startTime);
+}
+
+/**
+ * The saved chunks of a session, in order. They stay readable until the session is discarded.
+ */
+export async function readSession(id: string): Promise<{ session: RecoverableSession; chunks: Blob[] }> {
+  return withDatabase(async (db) => {
+    const transaction = db.transaction([SESSION_STORE, CHUNK_STORE], 'readonly');
+    const [session, chunks] = await Promise.all([
+      requestToPromise<RecoverableSession | undefined>(transaction.objectStore(SESSION_STORE).get(id)),
+      requestToPromise<Blob[]>(transaction.objectStore(CHUNK_STORE).getAll(sessionChunkRange(id)))
+    ]);
+
+    if (!session) {
+      throw new Error(`No recoverable session with id ${id}`);
+    }
+    return { session, chunks };
+  });
+}
+
+export async function discardSession(id: string): Promise<void> {
+  await withDatabase(async (db) => {
+    const transaction = db.transaction([SESSION_STORE, CHUNK_STORE], 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(id);
+    transaction.objectStore(CHUNK_STORE).delete(sessionChunkRange(id));
+    await transactionDone(transaction);
+  });
+}
@@ -1,108 +1,468 @@
 /**
- * FFmpeg Web Worker for converting WebM to MP4
+ * FFmpeg Web Worker for converting recordings between containers and codecs, and exporting animated images
  */
 import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { fetchFile, toBlobURL } from '@ffmpeg/util';
+import { fetchFile } from '@ffmpeg/util';
+import {
+  ANIMATION_MIME_TYPES,
+  ResolvedAnimationOptions,
+  buildAnimationArgs,
+  buildPaletteArgs
+} from '../conversion/AnimationOptions';
+import { CONTAINER_MIME_TYPES, ResolvedConversionOptions, buildEncodingArgs } from '../conversion/ConversionOptions';
+import { EditInputInfo, EditSegment, buildEditFilter } from '../conversion/EditOptions';
+import { ResolvedCoreOptions, loadCoreFile, resolveCoreOptions } from '../conversion/FFmpegCore';
+import { JobRequest, JobStatus, JobType, WorkerRequest, WorkerResponse } from './protocol';
 
 let ffmpeg: FFmpeg | null = null;
+let loadPromise: Promise<void> | null = null;
 
-interface ConvertMessage {
-  type: 'convert';
-  webmBlob: Blob;
+// Set by the 'configure' message; the public CDNs are used until then
+let coreOptions: ResolvedCoreOptions = resolveCoreOptions({}, self.location.href);
+
+// Collects FFmpeg log lines while probing an input
+let logCollector: string[] | null = null;
+
+interface Job {
+  id: number;
+  type: JobType;
+  percent: number; // Last reported progress
+  startTime: number;
+  aborted: boolean;
+  executing: boolean; // An FFmpeg command is running; only terminating the core can stop it
+  // The current step: percent range it covers and the media duration (seconds) it will process
+  phaseStart: number;
+  phaseSpan: number;
+  phaseDuration: number;
+  phaseMessage: string;
 }
 
-interface LoadMessage {
-  type: 'load';
+interface InputInfo extends EditInputInfo {
+  duration: number; // Seconds, 0 when it can't be determined
 }
 
-type WorkerMessage = ConvertMessage | LoadMessage;
+// Jobs run one at a time in arrival order, so progress and log lines always belong to activeJob
+const jobQueue: JobRequest[] = [];
+let activeJob: Job | null = null;
 
-self.onmessage = async (event: MessageEvent<WorkerMessage>) => {
-  const { type } = event.data;
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
 
-  try {
-    if (type === 'load') {
+  if (message.type === 'configure') {
+    coreOptions = message.core;
+  } else if (message.type === 'load') {
+    try {
       await loadFFmpeg();
-      self.postMessage({ type: 'loaded' });
-    } else if (type === 'convert') {
-      const { webmBlob } = event.data as ConvertMessage;
-      
-      if (!ffmpeg) {
-        await loadFFmpeg();
-      }
+      post({ type: 'loaded', requestId: message.requestId });
+    } catch (error) {
+      post({ type: 'error', requestId: message.requestId, error: errorMessage(error) });
+    }
+  } else if (message.type === 'status') {
+    post({ type: 'status', requestId: message.requestId, jobs: getStatus() });
+  } else if (message.type === 'cancel') {
+    cancelJob(message.jobId);
+  } else {
+    jobQueue.push(message);
+    if (!activeJob) {
+      processQueue();
+    }
+  }
+};
+
+function post(message: WorkerResponse): void {
+  self.postMessage(message);
+}
+
+async function processQueue(): Promise<void> {
+  let message: JobRequest | undefined;
+  while ((message = jobQueue.shift())) {
+    await runJob(message);
+  }
+}
+
+async function runJob(message: JobRequest): Promise<void> {
+  const job: Job = {
+    id: message.jobId,
+    type: message.type,
+    percent: 0,
+    startTime: Date.now(),
+    aborted: false,
+    executing: false,
+    phaseStart: 0,
+    phaseSpan: 0,
+    phaseDuration: 0,
+    phaseMessage: ''
+  };
+  activeJob = job;
+
+  try {
+    let blob: Blob;
+    if (message.type === 'convert') {
+      blob = await convertVideo(job, message.blob, message.options);
+    } else if (message.type === 'animate') {
+      blob = await exportAnimation(job, message.blob, message.options);
+    } else {
+      blob = await editVideo(job, message.blobs, message.segments, message.options);
+    }
+    post({ type: 'complete', jobId: job.id, blob });
+  } catch (error) {
+    post({
+      type: 'error',
+      jobId: job.id,
+      error: job.aborted ? 'Conversion cancelled' : errorMessage(error),
+      aborted: job.aborted
+    });
+  } finally {
+    activeJob = null;
+  }
+}
 
-      self.postMessage({ type: 'progress', progress: 0, message: 'Starting conversion...' });
+function getStatus(): JobStatus[] {
+  const jobs: JobStatus[] = jobQueue.map(message => ({
+    jobId: message.jobId,
+    type: message.type,
+    state: 'queued',
+    percent: 0
+  }));
+  if (activeJob) {
+    jobs.unshift({ jobId: activeJob.id, type: activeJob.type, state: 'running', percent: activeJob.percent });
+  }
+  return jobs;
+}
 
-      // Write the WebM file to FFmpeg's virtual file system
-      await ffmpeg!.writeFile('input.webm', await fetchFile(webmBlob));
+function cancelJob(jobId: number): void {
+  // Still queued: drop it without ever starting
+  const index = jobQueue.findIndex(message => message.jobId === jobId);
+  if (index !== -1) {
+    jobQueue.splice(index, 1);
+    post({ type: 'error', jobId, error: 'Conversion cancelled', aborted: true });
+    return;
+  }
 
-      self.postMessage({ type: 'progress', progress: 5, message: 'Converting to MP4...' });
+  const job = activeJob;
+  if (!job || job.id !== jobId) return;
 
-      // Convert WebM to MP4
-      // The progress event will fire during this operation and update progress automatically
-      await ffmpeg!.exec([
-        '-i', 'input.webm',
-        '-c:v', 'libx264',
-        '-preset', 'fast',
-        '-crf', '22',
-        '-c:a', 'aac',
-        '-b:a', '128k',
-        'output.mp4'
-      ]);
+  job.aborted = true;
 
-      self.postMessage({ type: 'progress', progress: 90, message: 'Reading output...' });
+  // A running command can't be interrupted, so drop the core (and its in-memory filesystem with it);
+  // the next job reloads it, from the cache when one is configured
+  if (job.executing && ffmpeg) {
+    ffmpeg.terminate();
+    ffmpeg = null;
+    loadPromise = null;
+  }
+}
 
-      // Read the output file
-      const data = await ffmpeg!.readFile('output.mp4') as Uint8Array;
-      const mp4Blob = new Blob([new Uint8Array(data)], { type: 'video/mp4' });
+async function convertVideo(job: Job, blob: Blob, options: ResolvedConversionOptions): Promise<Blob> {
+  await loadFFmpeg();
 
-      self.postMessage({ type: 'progress', progress: 100, message: 'Conversion complete!' });
+  postProgress(job, 0, 'Starting conversion...');
+
+  const inputName = await writeInput(job, blob);
+  const outputName = `job${job.id}-output.${options.container}`;
+
+  try {
+    const input = await probeInput(job, inputName);
 
-      // Clean up
-      await ffmpeg!.deleteFile('input.webm');
-      await ffmpeg!.deleteFile('output.mp4');
+    setPhase(job, 5, 85, input.duration, `Converting to ${options.container.toUpperCase()}...`);
+    await exec(job, ['-i', inputName, ...buildEncodingArgs(options), outputName]);
 
-      self.postMessage({
-        type: 'complete',
-        mp4Blob
-      });
+    postProgress(job, 90, 'Reading output...');
+    const data = await readOutput(job, outputName);
+
+    postProgress(job, 100, 'Conversion complete!');
+
+    return new Blob([data], { type: CONTAINER_MIME_TYPES[options.container] });
+  } finally {
+    await removeFiles(inputName, outputName);
+  }
+}
+
+async function exportAnimation(job: Job, blob: Blob, options: ResolvedAnimationOptions): Promise<Blob> {
+  await loadFFmpeg();
+
+  postProgress(job, 0, 'Starting export...');
+
+  const inputName = await writeInput(job, blob);
+  const paletteName = `job${job.id}-palette.png`;
+  const outputName = `job${job.id}-output.${options.format === 'apng' ? 'png' : options.format}`;
+
+  try {
+    const input = await probeInput(job, inputName);
+
+    // GIF is two passes: build a palette from the whole clip, then map every frame onto it
+    if (options.format === 'gif') {
+      setPhase(job, 5, 40, input.duration, 'Generating palette...');
+      await exec(job, buildPaletteArgs(options, inputName, paletteName));
+      setPhase(job, 45, 50, input.duration, 'Encoding GIF...');
+    } else {
+      setPhase(job, 5, 90, input.duration, `Encoding ${options.format.toUpperCase()}...`);
     }
-  } catch (error) {
-    self.postMessage({
-      type: 'error',
-      error: error instanceof Error ? error.message : 'Unknown error occurred'
-    });
+
+    await exec(job, buildAnimationArgs(options, inputName, outputName, options.format === 'gif' ? paletteName : undefined));
+    const data = await readOutput(job, outputName);
+
+    postProgress(job, 100, 'Export complete!');
+
+    return new Blob([data], { type: ANIMATION_MIME_TYPES[options.format] });
+  } finally {
+    await removeFiles(inputName, paletteName, outputName);
   }
-};
+}
+
+async function editVideo(
+  job: Job,
+  blobs: Blob[],
+  segments: EditSegment[],
+  options: ResolvedConversionOptions
+): Promise<Blob> {
+  await loadFFmpeg();
+
+  postProgress(job, 0, 'Reading recordings...');
+
+  const inputNames: string[] = [];
+  const outputName = `job${job.id}-output.${options.container}`;
+
+  try {
+    const inputs: InputInfo[] = [];
+    for (let i = 0; i < blobs.length; i++) {
+      const name = await writeInput(job, blobs[i], `input${i}`);
+      inputNames.push(name);
+      inputs.push(await probeInput(job, name));
+    }
+
+    const { filter, hasAudio } = buildEditFilter(segments, inputs);
+    if (!hasAudio && inputs.some(input => input.hasAudio)) {
+      postLog('Not every recording has audio; the output will be silent');
+    }
 
-async function loadFFmpeg(): Promise<void> {
-  if (ffmpeg) return;
+    // The output is as long as the kept segments together
+    const outputDuration = segments.reduce((total, segment) => {
+      const end = segment.end !== undefined ? segment.end / 1000 : inputs[segment.input].duration;
+      return total + Math.max(0, end - segment.start / 1000);
+    }, 0);
 
-  ffmpeg = new FFmpeg();
+    setPhase(job, 5, 85, outputDuration, 'Editing...');
+    await exec(job, [
+      ...inputNames.flatMap(name => ['-i', name]),
+      '-filter_complex', filter,
+      '-map', '[v]',
+      ...(hasAudio ? ['-map', '[a]'] : []),
+      ...buildEncodingArgs(options),
+      outputName
+    ]);
 
-  // Set up logging
-  ffmpeg.on('log', ({ message }) => {
-    self.postMessage({ type: 'log', message });
+    postProgress(job, 90, 'Reading output...');
+    const data = await readOutput(job, outputName);
+
+    postProgress(job, 100, 'Edit complete!');
+
+    return new Blob([data], { type: CONTAINER_MIME_TYPES[options.container] });
+  } finally {
+    await removeFiles(...inputNames, outputName);
+  }
+}
+
+// Read stream information and duration from the log FFmpeg prints for an input
+async function probeInput(job: Job, name: string): Promise<InputInfo> {
+  // Probing commands report progress of their own that isn't part of the job
+  setPhase(job, job.phaseStart, 0, 0, 'Reading input...');
+
+  // Exits with an error because there is no output file; the stream listing is all we need
+  const lines = await collectLog(job, ['-hide_banner', '-i', name]);
+
+  const video = lines.find(line => /Stream #\d+:\d+.*: Video:/.test(line));
+  const size = video?.match(/, (\d{2,5})x(\d{2,5})/);
+  if (!size) {
+    throw new Error(`No video stream found in ${name}`);
+  }
+
+  let duration = parseTimestamp(lines.find(line => line.includes('Duration:'))?.match(/Duration: ([\d:.]+)/)?.[1]);
+
+  // MediaRecorder WebM has no duration in its header; a stream copy to nowhere reads to the end cheaply
+  if (!duration) {
+    const copyLines = await collectLog(job, ['-hide_banner', '-i', name, '-map', '0', '-c', 'copy', '-f', 'null', '-']);
+    const times = copyLines.map(line => line.match(/time=([\d:.]+)/)?.[1]).filter(Boolean);
+    duration = parseTimestamp(times[times.length - 1]);
+  }
+
+  return {
+    hasAudio: lines.some(line => /Stream #\d+:\d+.*: Audio:/.test(line)),
+    width: parseInt(size[1], 10),
+    height: parseInt(size[2], 10),
+    duration
+  };
+}
+
+async function collectLog(job: Job, args: string[]): Promise<string[]> {
+  const lines: string[] = [];
+  logCollector = lines;
+  try {
+    throwIfAborted(job);
+    job.executing = true;
+    await ffmpeg!.exec(args);
+  } finally {
+    job.executing = false;
+    logCollector = null;
+  }
+  throwIfAborted(job);
+  return lines;
+}
+
+// "HH:MM:SS.xx" to seconds; 0 for N/A or missing values
+function parseTimestamp(value: string | undefined): number {
+  if (!value) return 0;
+  const seconds = value.split(':').reduce((total, part) => total * 60 + parseFloat(part), 0);
+  return Number.isFinite(seconds) ? seconds : 0;
+}
+
+function setPhase(job: Job, start: number, span: number, duration: number, message: string): void {
+  job.phaseStart = start;
+  job.phaseSpan = span;
+  job.phaseDuration = duration;
+  job.phaseMessage = message;
+  postProgress(job, start, message);
+}
+
+function postProgress(job: Job, percent: number, message: string, time: number = 0): void {
+  const elapsed = Date.now() - job.startTime;
+  // Extrapolate from the rate so far; unknown until some progress has been made
+  const eta = percent > 0 && percent < 100 ? Math.round((elapsed * (100 - percent)) / percent) : undefined;
+  job.percent = percent;
+
+  post({
+    type: 'progress',
+    jobId: job.id,
+    percent,
+    elapsed,
+    eta: percent >= 100 ? 0 : eta,
+    time,
+    message
   });
+}
+
+function postLog(message: string): void {
+  post({ type: 'log', jobId: activeJob?.id, message });
+}
+
+// Write a recording to FFmpeg's virtual file system and return its file name
+async function writeInput(job: Job, blob: Blob, name: string = 'input'): Promise<string> {
+  // Recordings are WebM or MP4; FFmpeg probes the contents, the extension is only a hint
+  const fileName = `job${job.id}-${name}.${blob.type.startsWith('video/mp4') ? 'mp4' : 'webm'}`;
+  const data = await fetchFile(blob);
+  throwIfAborted(job);
+  await ffmpeg!.writeFile(fileName, data);
+  return fileName;
+}
+
+async function readOutput(job: Job, name: string): Promise<Uint8Array<ArrayBuffer>> {
+  throwIfAborted(job);
+  const data = await ffmpeg!.readFile(name) as Uint8Array;
+  return new Uint8Array(data);
+}
+
+async function exec(job: Job, args: string[]): Promise<void> {
+  throwIfAborted(job);
+
+  job.executing = true;
+  let exitCode: number;
+  try {
+    exitCode = await ffmpeg!.exec(args);
+  } finally {
+    job.executing = false;
+  }
+
+  throwIfAborted(job);
+  if (exitCode !== 0) {
+    throw new Error(`FFmpeg exited with code ${exitCode}; the selected encoder or settings may be unsupported`);
+  }
+}
+
+function throwIfAborted(job: Job): void {
+  if (job.aborted) {
+    throw new Error('Conversion cancelled');
+  }
+}
 
-  ffmpeg.on('progress', ({  time }) => {
-    // Convert microseconds to seconds for display
-    const timeInSeconds = (time / 1000000).toFixed(2);
-    self.postMessage({
-      type: 'progress',
-      time: timeInSeconds,
-      message: `Processing... (${timeInSeconds}s)`
+async function removeFiles(...names: string[]): Promise<void> {
+  // After a cancelled command the core was terminated, taking its filesystem with it
+  if (!ffmpeg) return;
+
+  for (const name of names) {
+    // Files that were never written (e.g. after a failed pass) throw here
+    await ffmpeg.deleteFile(name).catch(() => undefined);
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error occurred';
+}
+
+function loadFFmpeg(): Promise<void> {
+  // Share one load between concurrent callers, and allow a retry after a failure
+  if (!loadPromise) {
+    loadPromise = createFFmpeg().then(
+      (instance) => {
+        ffmpeg = instance;
+      },
+      (error) => {
+        loadPromise = null;
+        throw error;
+      }
+    );
+  }
+  return loadPromise;
+}
+
+async function createFFmpeg(): Promise<FFmpeg> {
+  // Try each configured source in order; the first one that loads wins
+  const failures: string[] = [];
+
+  for (const candidate of coreOptions.candidates) {
+    const instance = new FFmpeg();
+
+    // Set up logging
+    instance.on('log', ({ message }) => {
+      logCollector?.push(message);
+      postLog(message);
     });
-  });
 
-  // Load FFmpeg from CDN
-  // Note: This uses an external CDN. For production use, consider:
-  // 1. Hosting the FFmpeg WASM files locally in the public/ directory
-  // 2. Making the baseURL configurable via environment variables
-  // 3. Implementing fallback URLs for reliability
-  const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-  await ffmpeg.load({
-    coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-    wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
-  });
+    instance.on('progress', ({ time }) => {
+      const job = activeJob;
+      if (!job || job.phaseDuration <= 0) return;
+
+      // time is the output position in microseconds
+      const seconds = time / 1000000;
+      const fraction = Math.min(1, Math.max(0, seconds / job.phaseDuration));
+      postProgress(
+        job,
+        job.phaseStart + job.phaseSpan * fraction,
+        `${job.phaseMessage} (${seconds.toFixed(2)}s)`,
+        seconds
+      );
+    });
+
+    const blobURLs: string[] = [];
+    try {
+      const coreURL = await loadCoreFile(candidate.coreURL, 'text/javascript', coreOptions.cache);
+      blobURLs.push(coreURL);
+      const wasmURL = await loadCoreFile(candidate.wasmURL, 'application/wasm', coreOptions.cache);
+      blobURLs.push(wasmURL);
+      // The multi-threaded core starts its threads from workerURL later on, so it is never revoked
+      const workerURL = candidate.workerURL
+        ? await loadCoreFile(candidate.workerURL, 'text/javascript', coreOptions.cache)
+        : undefined;
+
+      await instance.load({ coreURL, wasmURL, workerURL });
+      postLog(`Loaded FFmpeg core from ${candidate.coreURL}`);
+      return instance;
+    } catch (error) {
+      instance.terminate();
+      failures.push(`${candidate.coreURL} (${errorMessage(error)})`);
+    } finally {
+      blobURLs.forEach(url => URL.revokeObjectURL(url));
+    }
+  }
+
+  throw new Error(`Failed to load the FFmpeg core from: ${failures.join(', ')}`);
 }
@@ -0,0 +1,118 @@
+/**
+ * Message protocol between VideoConverter and the FFmpeg worker.
+ * Jobs are identified by jobId and other requests by requestId; every response carries the ID it answers.
+ */
+import type { ResolvedAnimationOptions } from '../conversion/AnimationOptions';
+import type { ResolvedConversionOptions } from '../conversion/ConversionOptions';
+import type { EditSegment } from '../conversion/EditOptions';
+import type { ResolvedCoreOptions } from '../conversion/FFmpegCore';
+
+// Requests (VideoConverter -> worker)
+
+export interface ConvertRequest {
+  type: 'convert';
+  jobId: number;
+  blob: Blob;
+  options: ResolvedConversionOptions;
+}
+
+export interface AnimateRequest {
+  type: 'animate';
+  jobId: number;
+  blob: Blob;
+  options: ResolvedAnimationOptions;
+}
+
+export interface EditRequest {
+  type: 'edit';
+  jobId: number;
+  blobs: Blob[];
+  segments: EditSegment[];
+  options: ResolvedConversionOptions;
+}
+
+export interface CancelRequest {
+  type: 'cancel';
+  jobId: number;
+}
+
+export interface ConfigureRequest {
+  type: 'configure';
+  core: ResolvedCoreOptions;
+}
+
+export interface LoadRequest {
+  type: 'load';
+  requestId: number;
+}
+
+export interface StatusRequest {
+  type: 'status';
+  requestId: number;
+}
+
+export type JobRequest = ConvertRequest | AnimateRequest | EditRequest;
+export type WorkerRequest = JobRequest | CancelRequest | ConfigureRequest | LoadRequest | StatusRequest;
+
+// Job requests without the ID, which VideoConverter assigns when it sends them
+export type JobPayload = Omit<ConvertRequest, 'jobId'> | Omit<AnimateRequest, 'jobId'> | Omit<EditRequest, 'jobId'>;
+
+export type JobType = JobRequest['type'];
+
+export interface JobStatus {
+  jobId: number;
+  type: JobType;
+  state: 'queued' | 'running';
+  percent: number; // 0 while queued
+}
+
+// Responses (worker -> VideoConverter)
+
+export interface LoadedResponse {
+  type: 'loaded';
+  requestId: number;
+}
+
+export interface StatusResponse {
+  type: 'status';
+  requestId: number;
+  jobs: JobStatus[]; // Running job first, then the queue in order
+}
+
+export interface ProgressResponse {
+  type: 'progress';
+  jobId: number;
+  percent: number;
+  elapsed: number;
+  eta?: number;
+  time: number;
+  message: string;
+}
+
+export interface CompleteResponse {
+  type: 'complete';
+  jobId: number;
+  blob: Blob;
+}
+
+export interface ErrorResponse {
+  type: 'error';
+  jobId?: number; // Set for job failures
+  requestId?: number; // Set for failed load requests
+  error: string;
+  aborted?: boolean; // The job was cancelled
+}
+
+export interface LogResponse {
+  type: 'log';
+  jobId?: number; // The running job, if any
+  message: string;
+}
+
+export type WorkerResponse =
+  | LoadedResponse
+  | StatusResponse
+  | ProgressResponse
+  | CompleteResponse
+  | ErrorResponse
+  | LogResponse;